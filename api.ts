@@ -5,129 +5,162 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-// This file contains all functions that interact with the GoogleGenAI API.
-// Keeping them separate improves organization and modularity.
-
-import {
-  GoogleGenAI,
-  Modality,
-  Type,
-} from '@google/genai';
+// This file contains all functions that interact with the generation backend.
+// Keeping them separate improves organization and modularity. The backend
+// itself (Google or the offline mock) is chosen in providers.ts.
+
 import * as state from './state';
+import { getProvider, InlineData, SpeakerVoice } from './providers';
+import { deleteVideoJob, saveVideoJob, VideoJob } from './video-jobs';
+import { closestAspectRatio, IMAGE_EDIT_MODEL, IMAGE_MODEL, SPEECH_MODEL, supportedAspectRatios, TEXT_MODEL, VIDEO_MODEL } from './models';
+import { classifyError, GenerationErrorKind, isTransientError, RETRY_POLICIES, SafetyBlockError, TextInsteadOfImageError } from './errors';
+import { audioSeconds, recordUsage, trackUsage, usageContext, videoSeconds } from './usage';
+import { normalizeImage } from './normalize';
+
+// Model ids, re-exported so outputs can record which model produced them.
+export { IMAGE_EDIT_MODEL, IMAGE_MODEL, SPEECH_MODEL, TEXT_MODEL, VIDEO_MODEL };
 
-export async function retryWithBackoff<T>(
-    fn: () => Promise<T>,
-    retries = 3,
-    delay = 1000,
-    onRetry?: (attempt: number, error: any, delay: number) => void
-): Promise<T> {
-    let attempt = 1;
-    while (attempt <= retries) {
+/** Waits between polls and retries, rejecting as soon as the signal aborts. */
+export function sleep(ms: number, signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Runs one step of a video job, repeating just that step on transient
+ * errors with the scheduler's retry policies. Video jobs are never started
+ * over by the scheduler, so polls and downloads retry here instead.
+ */
+async function retryVideoStep<T>(step: () => Promise<T>, signal?: AbortSignal, retryOn: (kind: GenerationErrorKind) => boolean = isTransientError): Promise<T> {
+    for (let failures = 0; ; failures++) {
         try {
-            return await fn();
+            return await step();
         } catch (error) {
-            if (attempt === retries) {
-                throw error;
-            }
-            if (onRetry) {
-                onRetry(attempt, error, delay);
-            }
-            await new Promise(resolve => setTimeout(resolve, delay));
-            delay *= 2; // Exponential backoff
-            attempt++;
+            const failure = classifyError(error);
+            const policy = RETRY_POLICIES[failure.kind];
+            if (!retryOn(failure.kind) || failures >= (policy.retries ?? 0)) throw error;
+            await sleep(failure.retryAfterMs ?? policy.delayMs * 2 ** failures, signal);
         }
     }
-    throw new Error("Max retries reached"); // Should not be reached
+}
+
+/** Fits an image output to the requested ratio and output size, keeping the raw output if that fails. */
+async function fitToAspectRatio(image: InlineData, aspectRatio: string): Promise<string> {
+    const imageUrl = `data:${image.mimeType};base64,${image.data}`;
+    try {
+        return await normalizeImage(imageUrl, aspectRatio);
+    } catch (error) {
+        console.warn('Could not fit the image to its aspect ratio:', error);
+        return imageUrl;
+    }
 }
 
 // FIX: Add function to get product description from an image for Product Studio.
-export async function getProductDescription(base64Image: string): Promise<string> {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export async function getProductDescription(base64Image: string, signal?: AbortSignal): Promise<string> {
     const prompt = 'Please identify and describe the main product in this image. Provide a short, simple description suitable for use as a placeholder like "[product]" in another prompt. For example, if the image shows a bottle of lotion, a good description would be "a white bottle of lotion". Just return the description, no preamble.';
     
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: {
-                parts: [
-                    { inlineData: { mimeType: 'image/png', data: base64Image } },
-                    { text: prompt }
-                ]
-            }
-        });
-        return response.text.trim();
+        return await trackUsage(TEXT_MODEL, signal, onUsage => getProvider().describeImage({
+            model: TEXT_MODEL,
+            image: { mimeType: 'image/png', data: base64Image },
+            prompt,
+            signal,
+            onUsage,
+        }));
     } catch (error: any) {
         console.error('Error getting product description:', error);
-        throw new Error('Could not identify the product in the image.');
+        throw classifyError(error, 'Could not identify the product in the image.');
     }
 }
 
-export async function generateImageWithPrompt(prompt: string, aspectRatio: string, outputSlot: HTMLElement, currentModelBase64: string, productImageBase64?: string | null, retryCount = 0): Promise<{imageUrl: string, filename: string} | null> {
+/**
+ * Writes a camera-and-motion prompt for a video storyboard scene image,
+ * in the style of the built-in VIDEO_STORYBOARD_PROMPTS.
+ */
+export async function generateMotionPrompt(base64Image: string, mimeType: string, signal?: AbortSignal): Promise<string> {
+    const examples = state.VIDEO_STORYBOARD_PROMPTS.slice(0, 3).map((example, i) => `Example ${i + 1}:\n${example}`).join('\n\n');
+    const prompt = `You write prompts for an image-to-video model that animates a single still image into a short product advertisement clip.
+Look at the image and write one motion prompt for it. Describe the camera movement (for example zoom-in, pan, close-up, side angle slow motion, pull focus), the movement of the people and objects, and the lighting and mood, based only on what is visible in the image.
+Write in Indonesian, in the same style and length as these examples:
+
+${examples}
+
+Return only the prompt, no preamble.`;
+
+    try {
+        return await trackUsage(TEXT_MODEL, signal, onUsage => getProvider().describeImage({
+            model: TEXT_MODEL,
+            image: { mimeType, data: base64Image },
+            prompt,
+            signal,
+            onUsage,
+        }));
+    } catch (error: any) {
+        console.error('Error generating motion prompt:', error);
+        throw classifyError(error, 'Could not write a motion prompt for this scene.');
+    }
+}
+
+export async function generateImageWithPrompt(prompt: string, aspectRatio: string, outputSlot: HTMLElement, currentModelBase64: string, productImageBase64?: string | null, signal?: AbortSignal, retryCount = 0): Promise<{imageUrl: string, filename: string, model: string} | null> {
     const MAX_RETRIES = 1;
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-    const parts: any[] = [];
+    const images: InlineData[] = [];
     const productImg = productImageBase64 !== undefined ? productImageBase64 : state.productImageBase64;
 
     if (productImg) {
-        parts.push({ inlineData: { mimeType: 'image/png', data: productImg } });
+        images.push({ mimeType: 'image/png', data: productImg });
     }
     if (currentModelBase64) {
-        parts.push({ inlineData: { mimeType: 'image/png', data: currentModelBase64 } });
+        images.push({ mimeType: 'image/png', data: currentModelBase64 });
     }
     if (state.faceImageBase64 && state.activeMode === 'image-studio') {
-        parts.push({ inlineData: { mimeType: 'image/png', data: state.faceImageBase64 } });
+        images.push({ mimeType: 'image/png', data: state.faceImageBase64 });
     }
     
-    // Suggest the composition rather than forcing a file ratio.
+    // The model only takes the ratio as a hint, so the output is fitted to it afterwards.
     const enhancedPrompt = `The composition of the final image should be suitable for a ${aspectRatio} aspect ratio. ${prompt}`;
-    parts.push({ text: enhancedPrompt });
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts },
-            config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-        });
-        
-        if (!response.candidates || response.candidates.length === 0) {
-            const errorMessage = response.text || 'No valid candidates returned from API. The prompt may have been blocked.';
-            throw new Error(errorMessage);
-        }
-
-        const imagePart = response.candidates[0].content.parts.find(part => part.inlineData);
-        const textPart = response.candidates[0].content.parts.find(part => part.text);
+        const response = await trackUsage(IMAGE_EDIT_MODEL, signal, onUsage => getProvider().editImage({
+            model: IMAGE_EDIT_MODEL,
+            images,
+            prompt: enhancedPrompt,
+            signal,
+            onUsage,
+        }), result => ({ images: result.image ? 1 : 0 }));
 
-        if (imagePart && imagePart.inlineData) {
-            const base64Image = imagePart.inlineData.data;
-            const imageUrl = `data:image/png;base64,${base64Image}`;
+        if (response.image) {
+            const imageUrl = await fitToAspectRatio(response.image, aspectRatio);
             const filename = `generated-image-${Date.now()}.png`;
-            return { imageUrl, filename };
-        } else if (textPart && retryCount < MAX_RETRIES) {
+            return { imageUrl, filename, model: IMAGE_EDIT_MODEL };
+        } else if (response.text && retryCount < MAX_RETRIES) {
              console.warn(`Model returned text instead of image. Retrying... Attempt ${retryCount + 1}`);
              outputSlot.innerHTML = `<p>Model returned text. Modifying prompt and retrying...</p>`;
              const modifiedPrompt = prompt + "\n\n(Catatan untuk AI: Pastikan outputnya adalah gambar, bukan teks.)";
-             await new Promise(resolve => setTimeout(resolve, 1000));
-             return await generateImageWithPrompt(modifiedPrompt, aspectRatio, outputSlot, currentModelBase64, productImageBase64, retryCount + 1);
+             await sleep(1000, signal);
+             return await generateImageWithPrompt(modifiedPrompt, aspectRatio, outputSlot, currentModelBase64, productImageBase64, signal, retryCount + 1);
+        } else if (response.text) {
+            throw new TextInsteadOfImageError(response.text);
         } else {
-            const errorMessage = textPart?.text || 'No image generated. The prompt might have been blocked.';
-            throw new Error(errorMessage);
+            throw new SafetyBlockError('No image generated. The prompt might have been blocked.');
         }
     } catch (error: any) {
         console.error('Error generating image:', error);
-        let errorMessage = 'An error occurred during image generation.';
-        const errorString = JSON.stringify(error);
-        if (errorString.includes('quota exceeded') || errorString.includes('RESOURCE_EXHAUSTED')) {
-            errorMessage = 'Image generation failed: API quota exceeded. Please check your account limits.';
-        } else if (error.message) {
-            errorMessage = `Error: ${error.message}`;
-        }
-        throw new Error(errorMessage);
+        throw classifyError(error, 'An error occurred during image generation.');
     }
 }
 
-export async function generateSingleImage(prompt: string, aspectRatio: string, referenceImagesBase64: string[], retryCount = 0): Promise<{imageUrl: string, filename: string} | null> {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export async function generateSingleImage(prompt: string, aspectRatio: string, referenceImagesBase64: string[], signal?: AbortSignal, retryCount = 0): Promise<{imageUrl: string, filename: string, model: string} | null> {
     const filename = `generated-image-${Date.now()}.png`;
 
     // --- IMAGE EDITING LOGIC (NANO BANANA) ---
@@ -135,11 +168,7 @@ export async function generateSingleImage(prompt: string, aspectRatio: string, r
     // where an input image exists and we need a different aspect ratio output.
     if (referenceImagesBase64 && referenceImagesBase64.length > 0) {
         const MAX_RETRIES = 1;
-        const parts: any[] = [];
-        
-        referenceImagesBase64.forEach(base64 => {
-            parts.push({ inlineData: { mimeType: 'image/png', data: base64 } });
-        });
+        const images: InlineData[] = referenceImagesBase64.map(base64 => ({ mimeType: 'image/png', data: base64 }));
         
         // This is the NEW, more robust prompt to force out-painting.
         const outpaintingPrompt = `
@@ -152,39 +181,32 @@ The final output should look like a single, cohesive photograph taken natively i
 Apply the following creative direction:
 ${prompt}
 `;
-        parts.push({ text: outpaintingPrompt });
 
         try {
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image',
-                contents: { parts },
-                config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-            });
-
-            if (!response.candidates || response.candidates.length === 0) {
-                const errorMessage = response.text || 'No valid candidates from API. Prompt may be blocked.';
-                throw new Error(errorMessage);
-            }
-
-            const imagePart = response.candidates[0].content.parts.find(part => part.inlineData);
-            const textPart = response.candidates[0].content.parts.find(part => part.text);
+            const response = await trackUsage(IMAGE_EDIT_MODEL, signal, onUsage => getProvider().editImage({
+                model: IMAGE_EDIT_MODEL,
+                images,
+                prompt: outpaintingPrompt,
+                signal,
+                onUsage,
+            }), result => ({ images: result.image ? 1 : 0 }));
 
-            if (imagePart && imagePart.inlineData) {
-                const base64Image = imagePart.inlineData.data;
-                const imageUrl = `data:image/png;base64,${base64Image}`;
-                return { imageUrl, filename };
-            } else if (textPart && retryCount < MAX_RETRIES) {
+            if (response.image) {
+                const imageUrl = await fitToAspectRatio(response.image, aspectRatio);
+                return { imageUrl, filename, model: IMAGE_EDIT_MODEL };
+            } else if (response.text && retryCount < MAX_RETRIES) {
                 console.warn(`Model returned text. Retrying... Attempt ${retryCount + 1}`);
                 const modifiedPrompt = prompt + "\n\n(AI note: Output must be an image, not text.)";
-                await new Promise(resolve => setTimeout(resolve, 1000));
-                return await generateSingleImage(modifiedPrompt, aspectRatio, referenceImagesBase64, retryCount + 1);
+                await sleep(1000, signal);
+                return await generateSingleImage(modifiedPrompt, aspectRatio, referenceImagesBase64, signal, retryCount + 1);
+            } else if (response.text) {
+                throw new TextInsteadOfImageError(response.text);
             } else {
-                const errorMessage = textPart?.text || 'No image generated. Prompt may be blocked.';
-                throw new Error(errorMessage);
+                throw new SafetyBlockError('No image generated. Prompt may be blocked.');
             }
         } catch (error: any) {
             console.error('Error in generateSingleImage (editing):', error);
-            throw new Error(error.message || 'An error occurred during image editing.');
+            throw classifyError(error, 'An error occurred during image editing.');
         }
     } 
     // --- IMAGE GENERATION LOGIC (IMAGEN 4.0) ---
@@ -192,40 +214,143 @@ ${prompt}
     // This model natively supports aspect ratios, guaranteeing correct file dimensions.
     else {
         try {
-            const response = await ai.models.generateImages({
-                model: 'imagen-4.0-generate-001',
+            const image = await trackUsage(IMAGE_MODEL, signal, onUsage => getProvider().generateImage({
+                model: IMAGE_MODEL,
                 prompt: prompt,
-                config: {
-                    numberOfImages: 1,
-                    outputMimeType: 'image/png',
-                    aspectRatio: aspectRatio as any, // This is the key for native aspect ratio support
-                },
-            });
+                // Imagen renders its own ratios natively; any other is fitted from the nearest one.
+                aspectRatio: closestAspectRatio(aspectRatio, supportedAspectRatios(IMAGE_MODEL)),
+                signal,
+                onUsage,
+            }), result => ({ images: result ? 1 : 0 }));
 
-            if (!response.generatedImages || response.generatedImages.length === 0 || !response.generatedImages[0].image) {
-                 throw new Error("Image generation returned no results. The prompt may have been blocked by safety policies.");
+            if (!image) {
+                 throw new SafetyBlockError("Image generation returned no results. The prompt may have been blocked by safety policies.");
             }
 
-            const base64Image = response.generatedImages[0].image.imageBytes;
-            const imageUrl = `data:image/png;base64,${base64Image}`;
-            return { imageUrl, filename };
+            const imageUrl = await fitToAspectRatio(image, aspectRatio);
+            return { imageUrl, filename, model: IMAGE_MODEL };
         } catch (error: any) {
             console.error('Error in generateSingleImage (generation):', error);
-            throw new Error(error.message || 'An error occurred during image generation.');
+            throw classifyError(error, 'An error occurred during image generation.');
+        }
+    }
+}
+
+/**
+ * Applies one follow-up instruction to an earlier output. The image itself
+ * is the input, and the instructions already applied to it are listed so
+ * the model keeps those changes rather than undoing them.
+ */
+export async function refineImage(image: InlineData, instruction: string, earlierInstructions: string[], signal?: AbortSignal): Promise<{imageUrl: string, filename: string, model: string}> {
+    const history = earlierInstructions.length
+        ? `\nEdits already applied to this image, which must be kept:\n${earlierInstructions.map((text, i) => `${i + 1}. ${text}`).join('\n')}\n`
+        : '';
+    const prompt = `Edit the provided image. Change only what the instruction asks for and keep everything else exactly as it is: the people, faces, product, text on the packaging, background, lighting, framing and aspect ratio.
+${history}
+Instruction: ${instruction}`;
+
+    try {
+        const response = await trackUsage(IMAGE_EDIT_MODEL, signal, onUsage => getProvider().editImage({
+            model: IMAGE_EDIT_MODEL,
+            images: [image],
+            prompt,
+            signal,
+            onUsage,
+        }), result => ({ images: result.image ? 1 : 0 }));
+
+        if (response.image) {
+            const imageUrl = `data:${response.image.mimeType};base64,${response.image.data}`;
+            return { imageUrl, filename: `refined-image-${Date.now()}.png`, model: IMAGE_EDIT_MODEL };
+        } else if (response.text) {
+            throw new TextInsteadOfImageError(response.text);
+        } else {
+            throw new SafetyBlockError('No image generated. The instruction may have been blocked.');
         }
+    } catch (error: any) {
+        console.error('Error refining image:', error);
+        throw classifyError(error, 'An error occurred while refining the image.');
+    }
+}
+
+/**
+ * Repaints one area of an image. The model gets the image and a copy with
+ * the area painted over, and returns the whole picture; the caller keeps
+ * only the masked part of it, so nothing outside the mask can change.
+ */
+export async function inpaintImage(image: InlineData, markedImage: InlineData, instruction: string, signal?: AbortSignal): Promise<InlineData> {
+    const prompt = `You are given two versions of the same image. The second one has an area painted over in solid magenta.
+Edit the first image inside that area only: ${instruction}
+Blend the new content seamlessly with the lighting, perspective and texture around it. Keep the rest of the image, its framing and its size exactly the same, and do not include any magenta in the result.`;
+
+    try {
+        const response = await trackUsage(IMAGE_EDIT_MODEL, signal, onUsage => getProvider().editImage({
+            model: IMAGE_EDIT_MODEL,
+            images: [image, markedImage],
+            prompt,
+            signal,
+            onUsage,
+        }), result => ({ images: result.image ? 1 : 0 }));
+
+        if (response.image) return response.image;
+        if (response.text) throw new TextInsteadOfImageError(response.text);
+        throw new SafetyBlockError('No image generated. The instruction may have been blocked.');
+    } catch (error: any) {
+        console.error('Error inpainting image:', error);
+        throw classifyError(error, 'An error occurred while editing the selected area.');
     }
 }
 
-export async function generateVideoForScene(scene: any, prompt: string, resultItem: HTMLElement, aspectRatio: string) {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export async function generateVideoForScene(scene: any, prompt: string, resultItem: HTMLElement, aspectRatio: string, signal?: AbortSignal) {
+    const provider = getProvider();
+    const startedAt = Date.now();
     try {
-        let operation = await ai.models.generateVideos({
-            model: 'veo-3.1-fast-generate-preview',
+        // Only answers saying the render was refused are safe to retry; a dropped connection may have started one.
+        const operation = await retryVideoStep(() => provider.startVideoGeneration({
+            model: VIDEO_MODEL,
             prompt: prompt,
-            image: { imageBytes: scene.base64, mimeType: scene.mimeType },
-            config: { numberOfVideos: 1, aspectRatio: aspectRatio as any }
+            image: { data: scene.base64, mimeType: scene.mimeType },
+            aspectRatio: aspectRatio,
+            signal,
+        }), signal, kind => kind === 'rate-limit' || kind === 'server').catch(error => {
+            // Once started, the job records itself in finishVideoJob; this covers requests that never started.
+            recordUsage({ model: VIDEO_MODEL, mode: 'video-storyboard', project: usageContext(signal).project, startedAt, outcome: classifyError(error).kind, amounts: {} });
+            throw error;
         });
 
+        // Persist the job so a reload during the render can pick it up again instead of losing it.
+        const job: VideoJob = {
+            id: operation.name,
+            providerId: provider.id,
+            operation,
+            sceneNumber: state.storyboardScenes.indexOf(scene) + 1,
+            prompt,
+            aspectRatio,
+            base64: scene.base64,
+            mimeType: scene.mimeType,
+            createdAt: Date.now(),
+        };
+        await saveVideoJob(job);
+        return await finishVideoJob(job, resultItem, signal);
+    } catch (error: any) {
+        throw videoError(error, scene.id);
+    }
+}
+
+/**
+ * Resumes polling a video job that was started before the page was reloaded.
+ */
+export async function resumeVideoJob(job: VideoJob, resultItem: HTMLElement, signal?: AbortSignal) {
+    try {
+        return await finishVideoJob(job, resultItem, signal);
+    } catch (error: any) {
+        throw videoError(error, job.sceneNumber);
+    }
+}
+
+async function finishVideoJob(job: VideoJob, resultItem: HTMLElement, signal?: AbortSignal) {
+    const provider = getProvider();
+    let operation = job.operation;
+    try {
         const progressMessages = [
             "Contacting the video generation servers...",
             "Warming up the AI model...",
@@ -238,80 +363,72 @@ export async function generateVideoForScene(scene: any, prompt: string, resultIt
         while (!operation.done) {
             resultItem.innerHTML = `<p>${progressMessages[messageIndex % progressMessages.length]} (This may take a few minutes)</p>`;
             messageIndex++;
-            await new Promise(resolve => setTimeout(resolve, 10000));
-            operation = await ai.operations.getVideosOperation({ operation: operation });
+            await sleep(provider.videoPollIntervalMs, signal);
+            const current = operation;
+            operation = await retryVideoStep(() => provider.getVideoOperation(current, signal), signal);
         }
 
-        if (operation.response?.generatedVideos?.[0]?.video?.uri) {
-            const downloadLink = operation.response.generatedVideos[0].video.uri;
-            const apiKey = process.env.API_KEY;
-            if (!apiKey) throw new Error("API Key not found for fetching video.");
-            const videoResponse = await fetch(`${downloadLink}&key=${apiKey}`);
-            const videoBlob = await videoResponse.blob();
+        if (operation.videoUri) {
+            const finished = operation;
+            const videoBlob = await retryVideoStep(() => provider.downloadVideo(finished, signal), signal);
+            // Veo is billed per second of video, counted from when the job was first started.
+            recordUsage({
+                model: VIDEO_MODEL, mode: 'video-storyboard', project: usageContext(signal).project, startedAt: job.createdAt,
+                outcome: 'success', amounts: { videoSeconds: await videoSeconds(videoBlob) },
+            });
             const videoUrl = URL.createObjectURL(videoBlob);
-            const filename = `storyboard-scene-${scene.id}-${Date.now()}.mp4`;
+            const filename = `storyboard-scene-${job.sceneNumber}-${Date.now()}.mp4`;
             
-            return { videoUrl, filename };
+            return { videoUrl, filename, model: VIDEO_MODEL };
 
         } else {
             // Check for specific errors in the operation if available
-            const error = (operation as any).error;
-            if (error) {
-                throw new Error(`Video generation failed: ${error.message || 'Unknown error'}`);
+            if (operation.error) {
+                throw new Error(`Video generation failed: ${operation.error}`);
             }
             throw new Error("Video generation finished but no video URI was returned.");
         }
     } catch (error: any) {
-        console.error(`Error generating video for scene ${scene.id}:`, error);
-        const errorString = JSON.stringify(error);
-        
-        if (errorString.includes('Requested entity was not found')) {
-            const userMessage = 'The configured API key is invalid or missing required permissions (e.g., billing not enabled). Please check the environment configuration.';
-            throw new Error(`${userMessage} <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" style="color: var(--accent-bright); text-decoration: underline;">Learn more about billing.</a>`);
-        }
-
-        let errorMessage = `Failed to generate video for Scene ${scene.id}.`;
-        if (errorString.includes('quota exceeded') || errorString.includes('RESOURCE_EXHAUSTED')) {
-            errorMessage = `Video generation failed for Scene ${scene.id}: API quota has been exceeded. Please check your Google project billing or usage limits.`;
-        } else if (error.message) {
-            errorMessage = `Error for Scene ${scene.id}: ${error.message}`;
-        }
-        throw new Error(errorMessage);
+        recordUsage({ model: VIDEO_MODEL, mode: 'video-storyboard', project: usageContext(signal).project, startedAt: job.createdAt, outcome: classifyError(error).kind, amounts: {} });
+        throw error;
+    } finally {
+        // Polls retry above and the scheduler never starts video jobs over, so the job has finished, failed or been cancelled for good.
+        await deleteVideoJob(job.id);
     }
 }
 
+function videoError(error: any, sceneId: number) {
+    console.error(`Error generating video for scene ${sceneId}:`, error);
+    return classifyError(error, `Failed to generate video for Scene ${sceneId}.`);
+}
+
 // FIX: Add function to generate audio from text for the Voice Over feature.
-export async function generateAudioFromText(script: string, voiceName: string): Promise<string> {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export async function generateAudioFromText(script: string, voiceName: string, speakers?: SpeakerVoice[], direction?: string, signal?: AbortSignal): Promise<InlineData> {
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text: script }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: voiceName },
-                    },
-                },
-            },
-        });
+        // The multi-speaker model expects the dialogue to be introduced by name.
+        // A delivery direction is read as an instruction, not spoken, when it leads the text.
+        let text = speakers?.length
+            ? `TTS the following conversation between ${speakers.map(s => s.speaker).join(' and ')}:\n${script}`
+            : script;
+        if (direction) {
+            text = speakers?.length ? `${direction}.\n${text}` : `${direction}:\n${text}`;
+        }
+        const audio = await trackUsage(SPEECH_MODEL, signal, onUsage => getProvider().generateSpeech({
+            model: SPEECH_MODEL,
+            text,
+            voiceName: voiceName,
+            speakers,
+            signal,
+            onUsage,
+        }), result => ({ audioSeconds: result ? audioSeconds(result) : 0 }));
         
-        const audioPart = response.candidates?.[0]?.content?.parts?.[0];
-        if (audioPart && audioPart.inlineData) {
-            return audioPart.inlineData.data;
+        if (audio) {
+            return audio;
         } else {
             throw new Error("Audio generation failed: No audio data was returned from the API.");
         }
     } catch (error: any) {
         console.error(`Error generating audio for voice "${voiceName}":`, error);
-        let errorMessage = `Failed to generate audio.`;
-        const errorString = JSON.stringify(error);
-        if (errorString.includes('quota exceeded') || errorString.includes('RESOURCE_EXHAUSTED')) {
-            errorMessage = `Audio generation failed: API quota has been exceeded.`;
-        } else if (error.message) {
-            errorMessage = `Error: ${error.message}`;
-        }
-        throw new Error(errorMessage);
+        throw classifyError(error, 'Failed to generate audio.');
     }
 }
\ No newline at end of file
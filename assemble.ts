@@ -0,0 +1,427 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file contains the "Assemble" step of the video storyboard. It joins
+// the generated scene videos in storyboard order, lays a voice-over track on
+// top, optionally burns in subtitles, and exports a single MP4. Everything runs client-side: frames are drawn
+// to a canvas and encoded with WebCodecs, audio is mixed with an
+// OfflineAudioContext, and mp4-muxer writes the container.
+
+import { ArrayBufferTarget, Muxer } from 'mp4-muxer';
+import * as state from './state';
+import { addGeneratedAsset } from './history';
+import { closestAspectRatio } from './models';
+import { drawSubtitle, parseSubtitles, SubtitleCue } from './subtitles';
+
+export type Transition = 'cut' | 'crossfade';
+
+export interface AssembleOptions {
+    /** Scene video URLs in playback order. */
+    clipUrls: string[];
+    transition: Transition;
+    /** Crossfade length in seconds. Ignored for cuts. */
+    transitionDuration: number;
+    voiceOver: Blob | null;
+    /** Mix each scene's own sound under the voice-over. */
+    keepSceneAudio: boolean;
+    /** Captions drawn onto the frames, timed from the start of the video. */
+    subtitles?: SubtitleCue[];
+    /** Drawn over every frame after the subtitles, e.g. a brand overlay. */
+    overlay?: (ctx: CanvasRenderingContext2D, width: number, height: number) => void;
+    onProgress?: (message: string) => void;
+}
+
+interface TimelineClip {
+    video: HTMLVideoElement;
+    url: string;
+    start: number;
+    duration: number;
+}
+
+const OUTPUT_FPS = 24;
+const CROSSFADE_SECONDS = 0.5;
+const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_CHANNELS = 2;
+const AUDIO_CHUNK_FRAMES = 1024;
+const SCENE_AUDIO_GAIN_UNDER_VOICE = 0.25;
+// A seek that has not finished by then is treated as failed rather than left to hang the run.
+const SEEK_TIMEOUT_MS = 10000;
+const VIDEO_CODECS = ['avc1.4d0028', 'avc1.42001f'];
+const AUDIO_CODECS: { muxer: 'aac' | 'opus'; encoder: string }[] = [
+    { muxer: 'aac', encoder: 'mp4a.40.2' },
+    { muxer: 'opus', encoder: 'opus' },
+];
+
+// --- DOM ELEMENTS ---
+let assembleButton: HTMLButtonElement;
+let transitionSelector: HTMLElement;
+let audioInput: HTMLInputElement;
+let audioFileNameEl: HTMLElement;
+let keepSceneAudioInput: HTMLInputElement;
+let subtitleInput: HTMLInputElement;
+let subtitleFileNameEl: HTMLElement;
+let resultsContainer: HTMLElement;
+let placeholder: HTMLElement;
+let globalStatusEl: HTMLElement;
+let downloadAllButton: HTMLButtonElement;
+
+let voiceOverFile: File | null = null;
+let subtitleFile: File | null = null;
+
+// --- MEDIA HELPERS ---
+
+function loadVideo(url: string): Promise<HTMLVideoElement> {
+    return new Promise((resolve, reject) => {
+        const video = document.createElement('video');
+        video.muted = true;
+        video.preload = 'auto';
+        video.playsInline = true;
+        video.onloadeddata = () => resolve(video);
+        video.onerror = () => reject(new Error('Could not load one of the scene videos.'));
+        video.src = url;
+    });
+}
+
+function seekVideo(video: HTMLVideoElement, time: number): Promise<void> {
+    if (Math.abs(video.currentTime - time) < 0.001 && video.readyState >= 2) {
+        return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+        const done = (error?: Error) => {
+            clearTimeout(timer);
+            video.removeEventListener('seeked', onSeeked);
+            video.removeEventListener('error', onError);
+            if (error) reject(error);
+            else resolve();
+        };
+        const onSeeked = () => done();
+        const onError = () => done(new Error('Could not read a frame from one of the scene videos.'));
+        const timer = setTimeout(() => done(new Error('Timed out reading a frame from one of the scene videos.')), SEEK_TIMEOUT_MS);
+        video.addEventListener('seeked', onSeeked);
+        video.addEventListener('error', onError);
+        video.currentTime = time;
+    });
+}
+
+/** Draws a frame scaled to fit inside the canvas, letterboxed on black. */
+function drawContained(ctx: CanvasRenderingContext2D, video: HTMLVideoElement, width: number, height: number) {
+    const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+    const drawWidth = video.videoWidth * scale;
+    const drawHeight = video.videoHeight * scale;
+    ctx.drawImage(video, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+async function pickVideoCodec(width: number, height: number): Promise<string> {
+    for (const codec of VIDEO_CODECS) {
+        const support = await VideoEncoder.isConfigSupported({ codec, width, height, bitrate: 5_000_000, framerate: OUTPUT_FPS });
+        if (support.supported) return codec;
+    }
+    throw new Error('This browser cannot encode H.264 video.');
+}
+
+async function pickAudioCodec() {
+    for (const codec of AUDIO_CODECS) {
+        const support = await AudioEncoder.isConfigSupported({
+            codec: codec.encoder,
+            sampleRate: AUDIO_SAMPLE_RATE,
+            numberOfChannels: AUDIO_CHANNELS,
+            bitrate: 128000,
+        });
+        if (support.supported) return codec;
+    }
+    return null;
+}
+
+/**
+ * Lays out clips back to back. A crossfade starts each clip before the
+ * previous one ends, so the total runs shorter by one overlap per cut.
+ */
+function buildTimeline(videos: HTMLVideoElement[], urls: string[], transition: Transition, transitionDuration: number) {
+    const clips: TimelineClip[] = [];
+    let cursor = 0;
+    videos.forEach((video, i) => {
+        const duration = video.duration;
+        let start = cursor;
+        if (i > 0 && transition === 'crossfade') {
+            const overlap = Math.min(transitionDuration, duration / 2, clips[i - 1].duration / 2);
+            start = Math.max(0, cursor - overlap);
+        }
+        clips.push({ video, url: urls[i], start, duration });
+        cursor = start + duration;
+    });
+    return { clips, totalDuration: cursor };
+}
+
+async function mixAudio(clips: TimelineClip[], totalDuration: number, voiceOver: Blob | null, keepSceneAudio: boolean): Promise<AudioBuffer | null> {
+    if (!voiceOver && !keepSceneAudio) return null;
+
+    const context = new OfflineAudioContext(AUDIO_CHANNELS, Math.ceil(totalDuration * AUDIO_SAMPLE_RATE), AUDIO_SAMPLE_RATE);
+    let hasSource = false;
+
+    if (keepSceneAudio) {
+        const sceneGain = voiceOver ? SCENE_AUDIO_GAIN_UNDER_VOICE : 1;
+        for (let i = 0; i < clips.length; i++) {
+            const clip = clips[i];
+            let buffer: AudioBuffer;
+            try {
+                const data = await (await fetch(clip.url)).arrayBuffer();
+                buffer = await context.decodeAudioData(data);
+            } catch {
+                continue; // This scene has no audio track.
+            }
+            const source = context.createBufferSource();
+            const gain = context.createGain();
+            source.buffer = buffer;
+            gain.gain.setValueAtTime(sceneGain, clip.start);
+            // Fade out under the next clip's fade-in when they overlap.
+            const next = clips[i + 1];
+            const clipEnd = clip.start + clip.duration;
+            if (next && next.start < clipEnd) {
+                gain.gain.setValueAtTime(sceneGain, next.start);
+                gain.gain.linearRampToValueAtTime(0, clipEnd);
+            }
+            source.connect(gain).connect(context.destination);
+            source.start(clip.start);
+            hasSource = true;
+        }
+    }
+
+    if (voiceOver) {
+        let buffer: AudioBuffer;
+        try {
+            buffer = await context.decodeAudioData(await voiceOver.arrayBuffer());
+        } catch {
+            throw new Error('The voice-over file could not be decoded. Please use a WAV, MP3 or other browser-playable audio file.');
+        }
+        const source = context.createBufferSource();
+        source.buffer = buffer;
+        source.connect(context.destination);
+        source.start(0);
+        hasSource = true;
+    }
+
+    return hasSource ? await context.startRendering() : null;
+}
+
+async function encodeAudio(buffer: AudioBuffer, muxer: Muxer<ArrayBufferTarget>, codec: string) {
+    let encodeError: Error | null = null;
+    const encoder = new AudioEncoder({
+        output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+        error: (e) => { encodeError = e; },
+    });
+    encoder.configure({ codec, sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: AUDIO_CHANNELS, bitrate: 128000 });
+
+    for (let offset = 0; offset < buffer.length; offset += AUDIO_CHUNK_FRAMES) {
+        const frames = Math.min(AUDIO_CHUNK_FRAMES, buffer.length - offset);
+        const planar = new Float32Array(frames * AUDIO_CHANNELS);
+        for (let channel = 0; channel < AUDIO_CHANNELS; channel++) {
+            planar.set(buffer.getChannelData(channel).subarray(offset, offset + frames), channel * frames);
+        }
+        const audioData = new AudioData({
+            format: 'f32-planar',
+            sampleRate: AUDIO_SAMPLE_RATE,
+            numberOfFrames: frames,
+            numberOfChannels: AUDIO_CHANNELS,
+            timestamp: Math.round(offset * 1e6 / AUDIO_SAMPLE_RATE),
+            data: planar,
+        });
+        encoder.encode(audioData);
+        audioData.close();
+    }
+    await encoder.flush();
+    encoder.close();
+    if (encodeError) throw encodeError;
+}
+
+// --- CORE FUNCTIONS ---
+
+/**
+ * Renders the clips into a single MP4, sized after the first clip.
+ * @returns The finished video and its pixel dimensions.
+ */
+export async function assembleVideo(options: AssembleOptions): Promise<{ blob: Blob; width: number; height: number }> {
+    if (typeof VideoEncoder === 'undefined' || typeof AudioEncoder === 'undefined') {
+        throw new Error('Assembling videos needs WebCodecs, which this browser does not support.');
+    }
+    const report = options.onProgress || (() => {});
+
+    report('Loading scene videos...');
+    const videos = await Promise.all(options.clipUrls.map(loadVideo));
+    const { clips, totalDuration } = buildTimeline(videos, options.clipUrls, options.transition, options.transitionDuration);
+
+    // H.264 needs even dimensions.
+    const width = videos[0].videoWidth - (videos[0].videoWidth % 2);
+    const height = videos[0].videoHeight - (videos[0].videoHeight % 2);
+
+    report('Mixing audio...');
+    const audioBuffer = await mixAudio(clips, totalDuration, options.voiceOver, options.keepSceneAudio);
+    const audioCodec = audioBuffer ? await pickAudioCodec() : null;
+    if (audioBuffer && !audioCodec) {
+        throw new Error('This browser cannot encode AAC or Opus audio.');
+    }
+
+    const videoCodec = await pickVideoCodec(width, height);
+    const muxer = new Muxer({
+        target: new ArrayBufferTarget(),
+        video: { codec: 'avc', width, height, frameRate: OUTPUT_FPS },
+        audio: audioCodec ? { codec: audioCodec.muxer, numberOfChannels: AUDIO_CHANNELS, sampleRate: AUDIO_SAMPLE_RATE } : undefined,
+        fastStart: 'in-memory',
+    });
+
+    let encodeError: Error | null = null;
+    const encoder = new VideoEncoder({
+        output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+        error: (e) => { encodeError = e; },
+    });
+    encoder.configure({ codec: videoCodec, width, height, bitrate: 5_000_000, framerate: OUTPUT_FPS });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+
+    const frameCount = Math.round(totalDuration * OUTPUT_FPS);
+    for (let i = 0; i < frameCount; i++) {
+        if (encodeError) throw encodeError;
+        const time = i / OUTPUT_FPS;
+        ctx.globalAlpha = 1;
+        ctx.fillStyle = '#000000';
+        ctx.fillRect(0, 0, width, height);
+
+        // Clips are drawn in order, so an incoming clip fades in over the outgoing one.
+        for (let c = 0; c < clips.length; c++) {
+            const clip = clips[c];
+            const localTime = time - clip.start;
+            if (localTime < 0 || localTime >= clip.duration) continue;
+            const previous = clips[c - 1];
+            const overlap = previous ? previous.start + previous.duration - clip.start : 0;
+            ctx.globalAlpha = overlap > 0 ? Math.min(1, localTime / overlap) : 1;
+            await seekVideo(clip.video, Math.min(localTime, clip.duration - 0.001));
+            drawContained(ctx, clip.video, width, height);
+        }
+        if (options.subtitles) drawSubtitle(ctx, options.subtitles, time, width, height);
+        if (options.overlay) {
+            ctx.globalAlpha = 1;
+            options.overlay(ctx, width, height);
+        }
+
+        const frame = new VideoFrame(canvas, { timestamp: Math.round(time * 1e6), duration: Math.round(1e6 / OUTPUT_FPS) });
+        encoder.encode(frame, { keyFrame: i % (OUTPUT_FPS * 2) === 0 });
+        frame.close();
+
+        if (i % OUTPUT_FPS === 0) {
+            report(`Rendering video... ${Math.round((i / frameCount) * 100)}%`);
+        }
+    }
+    await encoder.flush();
+    encoder.close();
+    if (encodeError) throw encodeError;
+
+    if (audioBuffer && audioCodec) {
+        report('Encoding audio...');
+        await encodeAudio(audioBuffer, muxer, audioCodec.encoder);
+    }
+
+    muxer.finalize();
+    videos.forEach(video => video.removeAttribute('src'));
+    return { blob: new Blob([muxer.target.buffer], { type: 'video/mp4' }), width, height };
+}
+
+async function runAssemble() {
+    const clipUrls = state.storyboardScenes
+        .map(scene => scene.videoUrl)
+        .filter((url): url is string => !!url);
+    if (clipUrls.length === 0) {
+        globalStatusEl.textContent = 'Generate at least one scene video before assembling.';
+        return;
+    }
+
+    const transition = (transitionSelector.querySelector('.tab-button.active') as HTMLElement)?.dataset.transition as Transition || 'cut';
+
+    assembleButton.disabled = true;
+    placeholder.classList.add('hidden');
+    const resultItem = document.createElement('div');
+    resultItem.className = 'result-item status loading';
+    resultItem.innerHTML = `<p>Preparing to assemble ${clipUrls.length} scenes...</p>`;
+    resultsContainer.prepend(resultItem);
+
+    try {
+        const { blob, width, height } = await assembleVideo({
+            clipUrls,
+            transition,
+            transitionDuration: CROSSFADE_SECONDS,
+            voiceOver: voiceOverFile,
+            keepSceneAudio: keepSceneAudioInput.checked,
+            subtitles: subtitleFile ? parseSubtitles(await subtitleFile.text()) : undefined,
+            onProgress: (message) => { resultItem.innerHTML = `<p>${message}</p>`; },
+        });
+        const videoUrl = URL.createObjectURL(blob);
+        const filename = `storyboard-assembled-${Date.now()}.mp4`;
+        const aspectRatio = closestAspectRatio(width / height);
+        const aspectClass = state.aspectClass(aspectRatio);
+        addGeneratedAsset({ url: videoUrl, filename, info: {
+            mode: 'video-storyboard', label: 'assembled', aspectRatio, createdAt: Date.now(),
+            sources: [
+                ...clipUrls.map(url => state.generatedAssetUrls.find(asset => asset.url === url)?.filename || url),
+                ...(voiceOverFile ? [voiceOverFile.name] : []),
+                ...(subtitleFile ? [subtitleFile.name] : []),
+            ],
+        } });
+        resultItem.innerHTML = `
+            <div class="video-container ${aspectClass}">
+                <video src="${videoUrl}" controls loop></video>
+            </div>
+            <p class="card-prompt">Assembled video: ${clipUrls.length} scenes, ${transition === 'crossfade' ? 'crossfades' : 'cuts'}${voiceOverFile ? ', voice-over' : ''}${subtitleFile ? ', subtitles' : ''}</p>
+            <div class="card-actions">
+                <a href="${videoUrl}" download="${filename}" class="card-button">Download</a>
+            </div>`;
+        downloadAllButton.classList.remove('hidden');
+        globalStatusEl.textContent = 'Video assembly complete!';
+    } catch (error: any) {
+        console.error('Video assembly failed:', error);
+        resultItem.innerHTML = `<p class="status-error">Assembly failed: ${error.message}</p>`;
+        globalStatusEl.textContent = 'An error occurred while assembling the video.';
+    }
+    resultItem.classList.remove('loading');
+    assembleButton.disabled = false;
+}
+
+/**
+ * Forgets the chosen voice-over and subtitles when the user leaves the video storyboard.
+ */
+export function resetAssemble() {
+    voiceOverFile = null;
+    subtitleFile = null;
+    if (audioFileNameEl) audioFileNameEl.textContent = 'Upload Voice-Over (Optional)';
+    if (subtitleFileNameEl) subtitleFileNameEl.textContent = 'Upload SRT or VTT (Optional)';
+}
+
+export function initializeAssemble() {
+    assembleButton = document.querySelector('#assemble-button')!;
+    transitionSelector = document.querySelector('#assemble-transition-selector')!;
+    audioInput = document.querySelector('#assemble-audio-input')!;
+    audioFileNameEl = document.querySelector('#assemble-audio-file-name')!;
+    keepSceneAudioInput = document.querySelector('#assemble-keep-scene-audio')!;
+    subtitleInput = document.querySelector('#assemble-subtitle-input')!;
+    subtitleFileNameEl = document.querySelector('#assemble-subtitle-file-name')!;
+    resultsContainer = document.querySelector('#results-container')!;
+    placeholder = resultsContainer.querySelector('.placeholder')!;
+    globalStatusEl = document.querySelector('#global-status')!;
+    downloadAllButton = document.querySelector('#download-all-button')!;
+
+    audioInput.addEventListener('change', () => {
+        voiceOverFile = audioInput.files?.[0] || null;
+        audioFileNameEl.textContent = voiceOverFile ? voiceOverFile.name : 'Upload Voice-Over (Optional)';
+    });
+
+    subtitleInput.addEventListener('change', () => {
+        subtitleFile = subtitleInput.files?.[0] || null;
+        subtitleFileNameEl.textContent = subtitleFile ? subtitleFile.name : 'Upload SRT or VTT (Optional)';
+    });
+
+    assembleButton.addEventListener('click', runAssemble);
+}
@@ -0,0 +1,125 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file builds the "Download All" ZIP. Outputs are grouped into one folder
+// per mode and named after their scene or variation, the input images they
+// were made from go into `inputs/`, and `manifest.json` records how every
+// file was generated.
+
+import { strToU8, zipSync, Zippable } from 'fflate';
+import * as state from './state';
+import { getProvider } from './providers';
+import { AUDIO_EXPORT_FORMATS, encodeAudio } from './audio-export';
+
+const MIME_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+    'video/mp4': 'mp4',
+    'video/webm': 'webm',
+    'audio/wav': 'wav',
+    'audio/mpeg': 'mp3',
+    'audio/ogg': 'ogg',
+};
+
+/** Uploaded images are kept as bare base64, so their type is read from the file signature. */
+function sniffImageMimeType(bytes: Uint8Array): string {
+    if (bytes[0] === 0x89 && bytes[1] === 0x50) return 'image/png';
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'image/jpeg';
+    if (bytes[0] === 0x47 && bytes[1] === 0x49) return 'image/gif';
+    if (bytes[8] === 0x57 && bytes[9] === 0x45) return 'image/webp';
+    return 'application/octet-stream';
+}
+
+function extensionFor(filename: string, mimeType: string): string {
+    const fromName = filename.match(/\.([a-z0-9]+)$/i)?.[1];
+    return fromName?.toLowerCase() || MIME_EXTENSIONS[mimeType.split(';')[0]] || 'bin';
+}
+
+/**
+ * Packs the given outputs into a ZIP with a manifest.json. Media files are
+ * stored uncompressed, since they are already compressed formats.
+ */
+export async function buildAssetZip(assets: state.GeneratedAsset[], onProgress?: (message: string) => void): Promise<Blob> {
+    const files: Zippable = {};
+    const usedPaths = new Set<string>();
+    const inputPaths = new Map<string, string>();
+    const pathsByFilename = new Map<string, string>();
+
+    const uniquePath = (base: string, extension: string) => {
+        let path = `${base}.${extension}`;
+        for (let n = 2; usedPaths.has(path); n++) path = `${base}-${n}.${extension}`;
+        usedPaths.add(path);
+        return path;
+    };
+
+    const entries = [];
+    for (let i = 0; i < assets.length; i++) {
+        const asset = assets[i];
+        const info = asset.info;
+        onProgress?.(`Adding file ${i + 1} of ${assets.length} to the ZIP...`);
+
+        let blob = await (await fetch(asset.url)).blob();
+        let extension = extensionFor(asset.filename, blob.type);
+        if (blob.type.startsWith('audio/')) {
+            // Audio follows the export format and sample rate chosen in the Voice Over panel.
+            blob = await encodeAudio(blob, state.voiceOverExportFormat, state.voiceOverExportSampleRate);
+            extension = AUDIO_EXPORT_FORMATS[state.voiceOverExportFormat].extension;
+        }
+        const folder = [info?.mode || 'other', info?.group].filter(Boolean).join('/');
+        const label = info?.label || state.assetLabel(asset.filename.replace(/\.[^.]+$/, ''));
+        const path = uniquePath(`${folder}/${label}`, extension);
+        files[path] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+        pathsByFilename.set(asset.filename, path);
+
+        const inputs = (info?.inputs || []).map(input => {
+            let inputPath = inputPaths.get(input.base64);
+            if (!inputPath) {
+                const bytes = state.base64ToBytes(input.base64);
+                const mimeType = input.mimeType || sniffImageMimeType(bytes);
+                inputPath = uniquePath(`inputs/${state.assetLabel(input.role)}`, MIME_EXTENSIONS[mimeType] || 'bin');
+                files[inputPath] = [bytes, { level: 0 }];
+                inputPaths.set(input.base64, inputPath);
+            }
+            return { role: input.role, file: inputPath };
+        });
+
+        entries.push({
+            file: path,
+            originalFilename: asset.filename,
+            mode: info?.mode ?? null,
+            label,
+            prompt: info?.prompt ?? null,
+            model: info?.model ?? null,
+            aspectRatio: info?.aspectRatio ?? null,
+            inputs,
+            sources: info?.sources ?? [],
+            direction: info?.direction ?? null,
+            instruction: info?.instruction ?? null,
+            overlay: info?.overlay ?? null,
+            group: info?.group ?? null,
+            createdAt: info ? new Date(info.createdAt).toISOString() : null,
+        });
+    }
+
+    // Sources name other outputs by their original file name; point them at the ZIP paths instead.
+    entries.forEach(entry => {
+        entry.sources = entry.sources.map(source => pathsByFilename.get(source) || source);
+    });
+
+    const manifest = {
+        generator: 'Roket Video Maker',
+        provider: getProvider().id,
+        exportedAt: new Date().toISOString(),
+        assets: entries,
+    };
+    files['manifest.json'] = strToU8(JSON.stringify(manifest, null, 2));
+
+    onProgress?.('Compressing ZIP...');
+    return new Blob([zipSync(files)], { type: 'application/zip' });
+}
@@ -0,0 +1,162 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file turns generated speech into real audio files. The TTS model
+// returns headerless 16-bit PCM, which is wrapped as WAV here, and WAV can
+// then be re-encoded to MP3 or Opus at a chosen sample rate for export.
+
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { ArrayBufferTarget, Muxer } from 'webm-muxer';
+import * as state from './state';
+import type { InlineData } from './providers';
+
+export type AudioExportFormat = 'wav' | 'mp3' | 'opus';
+
+/** Sample rate of the PCM the TTS model returns when it does not say otherwise. */
+export const SPEECH_SAMPLE_RATE = 24000;
+
+export const AUDIO_EXPORT_FORMATS: Record<AudioExportFormat, { label: string; extension: string; mimeType: string; sampleRates: number[] }> = {
+    wav: { label: 'WAV (lossless)', extension: 'wav', mimeType: 'audio/wav', sampleRates: [16000, 24000, 44100, 48000] },
+    mp3: { label: 'MP3 (128 kbps)', extension: 'mp3', mimeType: 'audio/mpeg', sampleRates: [16000, 22050, 24000, 44100, 48000] },
+    // Opus only runs at these rates; 48 kHz is its native one.
+    opus: { label: 'Opus (WebM)', extension: 'webm', mimeType: 'audio/webm', sampleRates: [16000, 24000, 48000] },
+};
+
+const MP3_KBPS = 128;
+const MP3_FRAME_SAMPLES = 1152;
+const OPUS_BITRATE = 64000;
+const OPUS_CHUNK_FRAMES = 4096;
+
+/**
+ * Wraps mono little-endian 16-bit PCM in a WAV header.
+ */
+export function pcmToWav(pcm: Uint8Array, sampleRate: number): Blob {
+    const header = new ArrayBuffer(44);
+    const view = new DataView(header);
+    const writeString = (offset: number, value: string) => {
+        for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+    };
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + pcm.length, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true);
+    view.setUint16(32, 2, true);
+    view.setUint16(34, 16, true);
+    writeString(36, 'data');
+    view.setUint32(40, pcm.length, true);
+    return new Blob([header, pcm], { type: 'audio/wav' });
+}
+
+/**
+ * Returns speech from the provider as a playable WAV file. Raw PCM
+ * (`audio/L16;rate=24000` and similar) gets a header; anything that is
+ * already a container is passed through.
+ */
+export function speechToWav(audio: InlineData): Blob {
+    const mimeType = audio.mimeType.toLowerCase();
+    const bytes = state.base64ToBytes(audio.data);
+    if (mimeType.startsWith('audio/l16') || mimeType.startsWith('audio/pcm')) {
+        const rate = parseInt(mimeType.match(/rate=(\d+)/)?.[1] || '', 10) || SPEECH_SAMPLE_RATE;
+        return pcmToWav(bytes, rate);
+    }
+    return new Blob([bytes], { type: audio.mimeType });
+}
+
+/** Decodes any browser-playable audio to mono samples at the given rate. */
+export async function decodeAudioMono(blob: Blob, sampleRate: number): Promise<Float32Array> {
+    // decodeAudioData resamples to the context's rate, so this also converts the sample rate.
+    const context = new OfflineAudioContext(1, 1, sampleRate);
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+    if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+    const mono = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const data = buffer.getChannelData(channel);
+        for (let i = 0; i < mono.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+    }
+    return mono;
+}
+
+function floatToInt16(samples: Float32Array): Int16Array {
+    const pcm = new Int16Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+        const s = Math.max(-1, Math.min(1, samples[i]));
+        pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    }
+    return pcm;
+}
+
+function encodeMp3(samples: Float32Array, sampleRate: number): Blob {
+    const encoder = new Mp3Encoder(1, sampleRate, MP3_KBPS);
+    const pcm = floatToInt16(samples);
+    const parts: Uint8Array[] = [];
+    for (let offset = 0; offset < pcm.length; offset += MP3_FRAME_SAMPLES) {
+        const chunk = encoder.encodeBuffer(pcm.subarray(offset, offset + MP3_FRAME_SAMPLES));
+        if (chunk.length > 0) parts.push(chunk);
+    }
+    parts.push(encoder.flush());
+    return new Blob(parts, { type: 'audio/mpeg' });
+}
+
+async function encodeOpus(samples: Float32Array, sampleRate: number): Promise<Blob> {
+    if (typeof AudioEncoder === 'undefined') {
+        throw new Error('Opus export needs WebCodecs (AudioEncoder), which this browser does not support.');
+    }
+    const muxer = new Muxer({
+        target: new ArrayBufferTarget(),
+        audio: { codec: 'A_OPUS', numberOfChannels: 1, sampleRate },
+    });
+    let encodeError: Error | null = null;
+    const encoder = new AudioEncoder({
+        output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+        error: (e) => { encodeError = e; },
+    });
+    encoder.configure({ codec: 'opus', sampleRate, numberOfChannels: 1, bitrate: OPUS_BITRATE });
+
+    for (let offset = 0; offset < samples.length; offset += OPUS_CHUNK_FRAMES) {
+        const data = samples.slice(offset, offset + OPUS_CHUNK_FRAMES);
+        const audioData = new AudioData({
+            format: 'f32-planar',
+            sampleRate,
+            numberOfFrames: data.length,
+            numberOfChannels: 1,
+            timestamp: Math.round(offset * 1e6 / sampleRate),
+            data,
+        });
+        encoder.encode(audioData);
+        audioData.close();
+    }
+    await encoder.flush();
+    encoder.close();
+    if (encodeError) throw encodeError;
+    muxer.finalize();
+    return new Blob([muxer.target.buffer], { type: 'audio/webm' });
+}
+
+/**
+ * Re-encodes an audio file to the given format and sample rate.
+ */
+export async function encodeAudio(blob: Blob, format: AudioExportFormat, sampleRate: number): Promise<Blob> {
+    const samples = await decodeAudioMono(blob, sampleRate);
+    switch (format) {
+        case 'mp3':
+            return encodeMp3(samples, sampleRate);
+        case 'opus':
+            return encodeOpus(samples, sampleRate);
+        default:
+            return pcmToWav(new Uint8Array(floatToInt16(samples).buffer), sampleRate);
+    }
+}
+
+/** Swaps a file name's extension for the one the export format uses. */
+export function exportFilename(filename: string, format: AudioExportFormat): string {
+    return `${filename.replace(/\.[^.]+$/, '')}.${AUDIO_EXPORT_FORMATS[format].extension}`;
+}
@@ -0,0 +1,240 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file contains the Image Storyboard "Batch Matrix". Instead of one
+// product and one model, the user uploads several of each and ticks the
+// product × model pairs to run; every ticked pair gets the full set of
+// storyboard scenes, grouped under its own heading and ZIP folder.
+
+import * as state from './state';
+import { onModeSwitch } from './ui';
+
+export interface BatchPair {
+    productBase64: string;
+    modelBase64: string;
+    /** Heading shown above the pair's results. */
+    title: string;
+    /** Folder name for the pair's outputs in the ZIP. */
+    group: string;
+}
+
+// --- DOM ELEMENTS ---
+let batchGroup: HTMLElement;
+let batchToggle: HTMLElement;
+let batchBody: HTMLElement;
+let productInput: HTMLInputElement;
+let modelInput: HTMLInputElement;
+let matrixTable: HTMLElement;
+let singleProductGroup: HTMLElement;
+let singleModelGroup: HTMLElement;
+
+// --- CORE FUNCTIONS ---
+
+function pairKey(productId: number, modelId: number) {
+    return `${productId}:${modelId}`;
+}
+
+/**
+ * Returns the ticked pairs when the batch matrix is on, or null when the
+ * storyboard should run on the single product and model uploads.
+ */
+export function getBatchPairs(): BatchPair[] | null {
+    if (!state.batchMatrixEnabled) return null;
+    const excluded = new Set(state.batchExcludedPairs);
+    return state.batchProducts.flatMap(product => state.batchModels
+        .filter(model => !excluded.has(pairKey(product.id, model.id)))
+        .map(model => ({
+            productBase64: product.base64,
+            modelBase64: model.base64,
+            title: `${product.name} × ${model.name}`,
+            group: `${state.assetLabel(product.name)}--${state.assetLabel(model.name)}`,
+        })));
+}
+
+/** Names an upload after its file, adding a number when the name is taken. */
+function uniqueName(fileName: string, taken: state.BatchImage[]): string {
+    const base = fileName.replace(/\.[^.]+$/, '') || 'image';
+    let name = base;
+    for (let n = 2; taken.some(image => image.name === name); n++) name = `${base}-${n}`;
+    return name;
+}
+
+async function addImages(kind: 'product' | 'model', files: FileList) {
+    for (const file of Array.from(files)) {
+        const taken = kind === 'product' ? state.batchProducts : state.batchModels;
+        state.addBatchImage(kind, { id: state.getNextBatchImageId(), name: uniqueName(file.name, taken), base64: await state.fileToBase64(file) });
+    }
+    renderMatrix();
+}
+
+function thumbnail(image: state.BatchImage, kind: 'product' | 'model') {
+    const wrapper = document.createElement('div');
+    wrapper.className = 'batch-thumb';
+    wrapper.innerHTML = `
+        <img src="data:image/png;base64,${image.base64}" alt="">
+        <span class="batch-thumb-name"></span>
+        <button class="batch-thumb-remove" data-kind="${kind}" data-id="${image.id}" aria-label="Remove">&times;</button>`;
+    (wrapper.querySelector('.batch-thumb-name') as HTMLElement).textContent = image.name;
+    return wrapper;
+}
+
+/**
+ * Draws the products as rows and the models as columns, with a checkbox for
+ * every pair.
+ */
+function renderMatrix() {
+    matrixTable.innerHTML = '';
+    if (state.batchProducts.length === 0 || state.batchModels.length === 0) {
+        matrixTable.innerHTML = `<p class="mode-info">Add at least one product and one model to build the matrix.</p>`;
+        if (state.batchProducts.length + state.batchModels.length === 0) return;
+    }
+
+    const excluded = new Set(state.batchExcludedPairs);
+    const table = document.createElement('table');
+    const headerRow = table.insertRow();
+    headerRow.insertCell().textContent = 'Product \\ Model';
+    state.batchModels.forEach(model => headerRow.insertCell().appendChild(thumbnail(model, 'model')));
+    state.batchProducts.forEach(product => {
+        const row = table.insertRow();
+        row.insertCell().appendChild(thumbnail(product, 'product'));
+        state.batchModels.forEach(model => {
+            const checkbox = document.createElement('input');
+            checkbox.type = 'checkbox';
+            checkbox.className = 'batch-pair-checkbox';
+            checkbox.dataset.pair = pairKey(product.id, model.id);
+            checkbox.checked = !excluded.has(checkbox.dataset.pair);
+            checkbox.setAttribute('aria-label', `${product.name} × ${model.name}`);
+            row.insertCell().appendChild(checkbox);
+        });
+    });
+    matrixTable.appendChild(table);
+
+    const count = getBatchPairs()?.length ?? 0;
+    const summary = document.createElement('p');
+    summary.className = 'mode-info';
+    summary.textContent = `${count} of ${state.batchProducts.length * state.batchModels.length} combinations ticked.`;
+    matrixTable.appendChild(summary);
+}
+
+function setBatchEnabled(enabled: boolean) {
+    state.setBatchMatrixEnabled(enabled);
+    batchToggle.querySelectorAll<HTMLElement>('.tab-button').forEach(button => {
+        button.classList.toggle('active', (button.dataset.batch === 'on') === enabled);
+    });
+    applyVisibility();
+    renderMatrix();
+}
+
+/** The single uploads and the matrix replace each other in the image storyboard. */
+function applyVisibility() {
+    const isStoryboard = state.activeMode === 'image-storyboard';
+    const batchOn = isStoryboard && state.batchMatrixEnabled;
+    batchGroup.classList.toggle('hidden', !isStoryboard);
+    batchBody.classList.toggle('hidden', !batchOn);
+    singleProductGroup.classList.toggle('hidden', batchOn);
+    singleModelGroup.classList.toggle('hidden', batchOn);
+}
+
+export function captureBatchMatrix() {
+    const productIndex = new Map(state.batchProducts.map((image, i) => [image.id, i]));
+    const modelIndex = new Map(state.batchModels.map((image, i) => [image.id, i]));
+    return {
+        enabled: state.batchMatrixEnabled,
+        products: state.batchProducts.map(({ name, base64 }) => ({ name, base64 })),
+        models: state.batchModels.map(({ name, base64 }) => ({ name, base64 })),
+        // Ids are not kept, so unticked pairs are saved by position.
+        excluded: state.batchExcludedPairs.map(key => {
+            const [productId, modelId] = key.split(':').map(Number);
+            return [productIndex.get(productId), modelIndex.get(modelId)];
+        }).filter(([p, m]) => p !== undefined && m !== undefined),
+    };
+}
+
+export function restoreBatchMatrix(snapshot: Record<string, any> | undefined) {
+    state.resetBatchMatrix();
+    const restoreImages = (kind: 'product' | 'model', images: any[] = []) => images
+        .filter(image => typeof image?.base64 === 'string')
+        .map(image => {
+            const batchImage = { id: state.getNextBatchImageId(), name: String(image.name || kind), base64: image.base64 };
+            state.addBatchImage(kind, batchImage);
+            return batchImage.id;
+        });
+    const productIds = restoreImages('product', snapshot?.products);
+    const modelIds = restoreImages('model', snapshot?.models);
+    state.setBatchExcludedPairs((snapshot?.excluded || [])
+        .filter(([p, m]: number[]) => productIds[p] !== undefined && modelIds[m] !== undefined)
+        .map(([p, m]: number[]) => pairKey(productIds[p], modelIds[m])));
+    setBatchEnabled(!!snapshot?.enabled);
+}
+
+function setupEventListeners() {
+    batchToggle.addEventListener('click', (e) => {
+        const button = (e.target as HTMLElement).closest<HTMLElement>('.tab-button');
+        if (button) setBatchEnabled(button.dataset.batch === 'on');
+    });
+
+    productInput.addEventListener('change', async () => {
+        if (productInput.files?.length) await addImages('product', productInput.files);
+        productInput.value = '';
+    });
+
+    modelInput.addEventListener('change', async () => {
+        if (modelInput.files?.length) await addImages('model', modelInput.files);
+        modelInput.value = '';
+    });
+
+    batchBody.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        const removeButton = target.closest<HTMLElement>('.batch-thumb-remove');
+        if (removeButton) {
+            const id = parseInt(removeButton.dataset.id!, 10);
+            state.removeBatchImage(removeButton.dataset.kind as 'product' | 'model', id);
+            renderMatrix();
+            return;
+        }
+        const selectAction = target.closest<HTMLElement>('[data-batch-select]')?.dataset.batchSelect;
+        if (selectAction) {
+            state.setBatchExcludedPairs(selectAction === 'none'
+                ? state.batchProducts.flatMap(p => state.batchModels.map(m => pairKey(p.id, m.id)))
+                : []);
+            renderMatrix();
+        }
+    });
+
+    matrixTable.addEventListener('change', (e) => {
+        const checkbox = (e.target as HTMLElement).closest<HTMLInputElement>('.batch-pair-checkbox');
+        if (!checkbox) return;
+        const key = checkbox.dataset.pair!;
+        const others = state.batchExcludedPairs.filter(k => k !== key);
+        state.setBatchExcludedPairs(checkbox.checked ? others : [...others, key]);
+        renderMatrix();
+    });
+
+    onModeSwitch({
+        after: (mode) => {
+            if (mode !== 'image-storyboard') state.resetBatchMatrix();
+            setBatchEnabled(state.batchMatrixEnabled);
+        },
+    });
+}
+
+/**
+ * Initializes the batch matrix controls of the image storyboard.
+ */
+export function initializeBatchMatrix() {
+    batchGroup = document.querySelector('#batch-matrix-group')!;
+    batchToggle = document.querySelector('#batch-matrix-toggle')!;
+    batchBody = document.querySelector('#batch-matrix-body')!;
+    productInput = document.querySelector('#batch-product-input')!;
+    modelInput = document.querySelector('#batch-model-input')!;
+    matrixTable = document.querySelector('#batch-matrix-table')!;
+    singleProductGroup = document.querySelector('#single-product-upload-group')!;
+    singleModelGroup = document.querySelector('#single-model-upload-group')!;
+
+    setupEventListeners();
+    setBatchEnabled(state.batchMatrixEnabled);
+}
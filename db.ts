@@ -0,0 +1,75 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file wraps the app's IndexedDB database in a few promise-based helpers.
+// Every feature that persists data locally declares its object store here,
+// so there is one place that owns the schema and its version.
+
+const DB_NAME = 'roket-video-maker';
+const DB_VERSION = 5;
+
+export type StoreName = 'projects' | 'video-jobs' | 'voice-previews' | 'usage' | 'history';
+
+const STORES: { name: StoreName; keyPath: string }[] = [
+    { name: 'projects', keyPath: 'id' },
+    { name: 'video-jobs', keyPath: 'id' },
+    { name: 'voice-previews', keyPath: 'id' },
+    { name: 'usage', keyPath: 'id' },
+    { name: 'history', keyPath: 'id' },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                STORES.forEach(store => {
+                    if (!db.objectStoreNames.contains(store.name)) {
+                        db.createObjectStore(store.name, { keyPath: store.keyPath });
+                    }
+                });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function withStore<T>(storeName: StoreName, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDatabase();
+    return promisify(fn(db.transaction(storeName, mode).objectStore(storeName)));
+}
+
+export function getRecord<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+    return withStore(storeName, 'readonly', store => store.get(key));
+}
+
+export function getAllRecords<T>(storeName: StoreName): Promise<T[]> {
+    return withStore(storeName, 'readonly', store => store.getAll());
+}
+
+export async function putRecord<T>(storeName: StoreName, value: T): Promise<void> {
+    await withStore(storeName, 'readwrite', store => store.put(value));
+}
+
+export async function deleteRecord(storeName: StoreName, key: IDBValidKey): Promise<void> {
+    await withStore(storeName, 'readwrite', store => store.delete(key));
+}
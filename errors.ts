@@ -0,0 +1,234 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file sorts generation failures into a small set of typed errors.
+// The scheduler picks a retry policy by error kind, and result cards show a
+// message and next step written for that kind instead of the raw API text.
+
+export type GenerationErrorKind =
+    | 'rate-limit'
+    | 'quota'
+    | 'safety'
+    | 'auth'
+    | 'text-instead-of-image'
+    | 'network'
+    | 'timeout'
+    | 'server'
+    | 'cancelled'
+    | 'unknown';
+
+export class GenerationError extends Error {
+    readonly kind: GenerationErrorKind;
+    /** How long the server asked us to wait before trying again, when it said so. */
+    readonly retryAfterMs?: number;
+
+    constructor(kind: GenerationErrorKind, message: string, options: { cause?: unknown; retryAfterMs?: number } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'GenerationError';
+        this.kind = kind;
+        this.retryAfterMs = options.retryAfterMs;
+    }
+}
+
+/** Too many requests in a short window; the same request will work shortly. */
+export class RateLimitError extends GenerationError {
+    constructor(message: string, options?: { cause?: unknown; retryAfterMs?: number }) {
+        super('rate-limit', message, options);
+        this.name = 'RateLimitError';
+    }
+}
+
+/** A daily or billing quota has run out; retrying soon will not help. */
+export class QuotaError extends GenerationError {
+    constructor(message: string, options?: { cause?: unknown; retryAfterMs?: number }) {
+        super('quota', message, options);
+        this.name = 'QuotaError';
+    }
+}
+
+export class SafetyBlockError extends GenerationError {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super('safety', message, options);
+        this.name = 'SafetyBlockError';
+    }
+}
+
+/** The API key is missing or invalid, or its project lacks billing or access to the model. */
+export class AuthError extends GenerationError {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super('auth', message, options);
+        this.name = 'AuthError';
+    }
+}
+
+/** An image model answered with text only. */
+export class TextInsteadOfImageError extends GenerationError {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super('text-instead-of-image', message, options);
+        this.name = 'TextInsteadOfImageError';
+    }
+}
+
+export class NetworkError extends GenerationError {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super('network', message, options);
+        this.name = 'NetworkError';
+    }
+}
+
+export class TimeoutError extends GenerationError {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super('timeout', message, options);
+        this.name = 'TimeoutError';
+    }
+}
+
+/** The service itself failed (5xx) or is overloaded. */
+export class ServerError extends GenerationError {
+    constructor(message: string, options?: { cause?: unknown; retryAfterMs?: number }) {
+        super('server', message, options);
+        this.name = 'ServerError';
+    }
+}
+
+export class JobCancelledError extends GenerationError {
+    constructor(label: string) {
+        super('cancelled', `${label} was cancelled.`);
+        this.name = 'JobCancelledError';
+    }
+}
+
+export interface RetryPolicy {
+    /** Retries after the first try. Unset means the job's own `retries` setting decides. */
+    retries?: number;
+    /** Delay before the first retry, doubled for each one after it. A server hint wins over it. */
+    delayMs: number;
+    /** Whether the failure holds back every job for the same model, not just this one. */
+    holdsModel?: boolean;
+}
+
+export const RETRY_POLICIES: Record<GenerationErrorKind, RetryPolicy> = {
+    'rate-limit': { retries: 4, delayMs: 15000, holdsModel: true },
+    'quota': { retries: 0, delayMs: 0 },
+    'safety': { retries: 0, delayMs: 0 },
+    'auth': { retries: 0, delayMs: 0 },
+    // api.ts already retries these once with a reworded prompt, so the scheduler does not repeat them.
+    'text-instead-of-image': { retries: 0, delayMs: 0 },
+    'network': { retries: 3, delayMs: 2000 },
+    'timeout': { retries: 2, delayMs: 5000 },
+    'server': { retries: 3, delayMs: 5000 },
+    'cancelled': { retries: 0, delayMs: 0 },
+    'unknown': { delayMs: 2000 },
+};
+
+/** Kinds that a repeat of the same request can get past once the service has recovered. */
+export function isTransientError(kind: GenerationErrorKind): boolean {
+    return kind === 'rate-limit' || kind === 'network' || kind === 'timeout' || kind === 'server';
+}
+
+/**
+ * Reads a retry hint from an API error: the RetryInfo `retryDelay` detail,
+ * a "retry in Ns" sentence or a Retry-After value.
+ */
+function parseRetryAfter(text: string): number | undefined {
+    const match = text.match(/retryDelay\\?"?\s*:\s*\\?"(\d+(?:\.\d+)?)s/i)
+        || text.match(/retry in (\d+(?:\.\d+)?)\s*s/i)
+        || text.match(/retry-after\\?"?\s*:?\s*\\?"?(\d+)/i);
+    return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+}
+
+/**
+ * Turns anything thrown by a provider, the SDK or fetch into a typed
+ * GenerationError. Errors that are already typed are returned as they are.
+ * @param fallbackMessage Used as the message when the error has none of its own.
+ */
+export function classifyError(error: any, fallbackMessage?: string): GenerationError {
+    if (error instanceof GenerationError) return error;
+
+    const message: string = error?.message || fallbackMessage || String(error || 'Unknown error');
+    let serialized = '';
+    try {
+        serialized = JSON.stringify(error) || '';
+    } catch {
+        // Circular errors are classified from their message alone.
+    }
+    const text = `${message} ${serialized}`;
+    const status: number | undefined = typeof error?.status === 'number' ? error.status : undefined;
+    const options = { cause: error, retryAfterMs: parseRetryAfter(text) };
+
+    if (error?.name === 'AbortError') return new JobCancelledError('The request');
+    if (error?.name === 'TimeoutError' || status === 504 || /DEADLINE_EXCEEDED|timed? ?out/i.test(text)) {
+        return new TimeoutError(message, options);
+    }
+    if (status === 401 || status === 403) return new AuthError(message, options);
+    // Quota errors mention billing too, so they are matched before the billing check.
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit|too many requests/i.test(text)) {
+        return /per ?day|PerDay|daily/i.test(text) ? new QuotaError(message, options) : new RateLimitError(message, options);
+    }
+    if (/API[ _]?key not valid|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED|Requested entity was not found|billing/i.test(text)) {
+        return new AuthError(message, options);
+    }
+    if (/\bSAFETY\b|IMAGE_SAFETY|PROHIBITED_CONTENT|BLOCKLIST|raiFiltered|blocked by|responsible AI/i.test(text)) {
+        return new SafetyBlockError(message, options);
+    }
+    if ((status !== undefined && status >= 500) || /\bUNAVAILABLE\b|\bINTERNAL\b|overloaded/i.test(text)) {
+        return new ServerError(message, options);
+    }
+    if (error instanceof TypeError || /Failed to fetch|NetworkError|network error|ERR_NETWORK|ECONNRESET/i.test(text)) {
+        return new NetworkError(message, options);
+    }
+    return new GenerationError('unknown', message, options);
+}
+
+interface ErrorCopy {
+    title: string;
+    hint: string;
+    link?: { href: string; label: string };
+}
+
+const ERROR_COPY: Record<GenerationErrorKind, ErrorCopy> = {
+    'rate-limit': { title: 'Rate limited', hint: 'The model is getting too many requests. Wait a minute, then regenerate.' },
+    'quota': {
+        title: 'Quota used up',
+        hint: 'The API quota for this key has run out. Try again after it resets, or raise the limit.',
+        link: { href: 'https://ai.google.dev/gemini-api/docs/rate-limits', label: 'See rate limits' },
+    },
+    'safety': { title: 'Blocked by safety filters', hint: 'Reword the prompt or use different reference images, then regenerate.' },
+    'auth': {
+        title: 'API key or billing problem',
+        hint: 'Check that the API key is valid and that billing is enabled for its project.',
+        link: { href: 'https://ai.google.dev/gemini-api/docs/billing', label: 'Learn more about billing' },
+    },
+    'text-instead-of-image': { title: 'No image returned', hint: 'The model answered with text. Describe the picture more concretely, then regenerate.' },
+    'network': { title: 'Network error', hint: 'Check your connection, then regenerate.' },
+    'timeout': { title: 'Timed out', hint: 'The request took too long. Regenerate, or try again later.' },
+    'server': { title: 'Service error', hint: 'The service had a temporary problem. Regenerate in a moment.' },
+    'cancelled': { title: 'Cancelled', hint: 'Regenerate to run it again.' },
+    'unknown': { title: 'Generation failed', hint: '' },
+};
+
+function escapeHtml(text: string) {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** A short label for an error, such as "Rate limited". */
+export function errorTitle(error: any): string {
+    return ERROR_COPY[classifyError(error).kind].title;
+}
+
+/**
+ * Renders the message block for a failed result card: what went wrong,
+ * the API's own words and what the user can do about it.
+ */
+export function errorMessageHtml(error: any): string {
+    const failure = classifyError(error);
+    const copy = ERROR_COPY[failure.kind];
+    const detail = failure.kind === 'cancelled' ? '' : ` ${escapeHtml(failure.message)}`;
+    const link = copy.link ? ` <a href="${copy.link.href}" target="_blank" rel="noopener">${copy.link.label}</a>` : '';
+    return `<p class="status-error error-${failure.kind}"><strong>${copy.title}.</strong>${detail}</p>`
+        + (copy.hint || link ? `<p class="error-hint">${copy.hint}${link}</p>` : '');
+}
@@ -0,0 +1,195 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file implements the generation backend on top of the GoogleGenAI SDK
+// (Gemini, Imagen, Veo and TTS). It is the default provider.
+
+import {
+    FinishReason,
+    GenerateContentResponse,
+    GenerateVideosOperation,
+    GoogleGenAI,
+    Modality,
+} from '@google/genai';
+import type {
+    DescribeImageRequest,
+    GenerationProvider,
+    ImageEditRequest,
+    ImageEditResponse,
+    InlineData,
+    RequestOptions,
+    SpeechRequest,
+    TextToImageRequest,
+    VideoOperation,
+    VideoRequest,
+} from './providers';
+import { SafetyBlockError } from './errors';
+
+// Finish reasons that mean the output was withheld by a safety filter.
+const SAFETY_FINISH_REASONS: string[] = [
+    FinishReason.SAFETY,
+    FinishReason.IMAGE_SAFETY,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.IMAGE_PROHIBITED_CONTENT,
+    FinishReason.BLOCKLIST,
+    FinishReason.SPII,
+];
+
+let client: GoogleGenAI | null = null;
+
+function getClient(): GoogleGenAI {
+    if (!client) {
+        client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    }
+    return client;
+}
+
+function toVideoOperation(operation: GenerateVideosOperation): VideoOperation {
+    const error = operation.error as { message?: string } | undefined;
+    return {
+        name: operation.name || '',
+        done: !!operation.done,
+        videoUri: operation.response?.generatedVideos?.[0]?.video?.uri,
+        error: error ? (error.message || 'Unknown error') : undefined,
+    };
+}
+
+function reportUsage(response: GenerateContentResponse, request: RequestOptions) {
+    const metadata = response.usageMetadata;
+    if (metadata) request.onUsage?.({ inputTokens: metadata.promptTokenCount, outputTokens: metadata.candidatesTokenCount });
+}
+
+async function editImage(request: ImageEditRequest): Promise<ImageEditResponse> {
+    const parts: any[] = request.images.map(image => ({ inlineData: image }));
+    parts.push({ text: request.prompt });
+
+    const response = await getClient().models.generateContent({
+        model: request.model,
+        contents: { parts },
+        config: { responseModalities: [Modality.IMAGE, Modality.TEXT], abortSignal: request.signal },
+    });
+    reportUsage(response, request);
+
+    if (!response.candidates || response.candidates.length === 0) {
+        const blockReason = response.promptFeedback?.blockReason;
+        if (blockReason) throw new SafetyBlockError(`The prompt was blocked (${blockReason}).`);
+        throw new Error(response.text || 'No valid candidates returned from API. The prompt may have been blocked.');
+    }
+
+    const finishReason = response.candidates[0].finishReason;
+    if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
+        throw new SafetyBlockError(`The image was blocked (${finishReason}).`);
+    }
+    const responseParts = response.candidates[0].content?.parts || [];
+    const imagePart = responseParts.find(part => part.inlineData);
+    const textPart = responseParts.find(part => part.text);
+    return {
+        image: imagePart?.inlineData?.data
+            ? { mimeType: imagePart.inlineData.mimeType || 'image/png', data: imagePart.inlineData.data }
+            : null,
+        text: textPart?.text || null,
+    };
+}
+
+async function generateImage(request: TextToImageRequest): Promise<InlineData | null> {
+    const response = await getClient().models.generateImages({
+        model: request.model,
+        prompt: request.prompt,
+        config: {
+            numberOfImages: 1,
+            outputMimeType: 'image/png',
+            aspectRatio: request.aspectRatio,
+            abortSignal: request.signal,
+        },
+    });
+
+    const filtered = response.generatedImages?.[0]?.raiFilteredReason;
+    if (filtered) throw new SafetyBlockError(filtered);
+    const imageBytes = response.generatedImages?.[0]?.image?.imageBytes;
+    return imageBytes ? { mimeType: 'image/png', data: imageBytes } : null;
+}
+
+async function startVideoGeneration(request: VideoRequest): Promise<VideoOperation> {
+    const operation = await getClient().models.generateVideos({
+        model: request.model,
+        prompt: request.prompt,
+        image: { imageBytes: request.image.data, mimeType: request.image.mimeType },
+        config: { numberOfVideos: 1, aspectRatio: request.aspectRatio, abortSignal: request.signal },
+    });
+    return toVideoOperation(operation);
+}
+
+async function getVideoOperation(operation: VideoOperation, signal?: AbortSignal): Promise<VideoOperation> {
+    // The SDK only needs the operation name to poll, so rebuild it from our plain copy.
+    const sdkOperation = new GenerateVideosOperation();
+    sdkOperation.name = operation.name;
+    return toVideoOperation(await getClient().operations.getVideosOperation({ operation: sdkOperation, config: { abortSignal: signal } }));
+}
+
+async function downloadVideo(operation: VideoOperation, signal?: AbortSignal): Promise<Blob> {
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) throw new Error("API Key not found for fetching video.");
+    if (!operation.videoUri) throw new Error("Video generation finished but no video URI was returned.");
+    const videoResponse = await fetch(`${operation.videoUri}&key=${apiKey}`, { signal });
+    return await videoResponse.blob();
+}
+
+async function generateSpeech(request: SpeechRequest): Promise<InlineData | null> {
+    const response = await getClient().models.generateContent({
+        model: request.model,
+        contents: [{ parts: [{ text: request.text }] }],
+        config: {
+            responseModalities: [Modality.AUDIO],
+            abortSignal: request.signal,
+            speechConfig: request.speakers?.length
+                ? {
+                    multiSpeakerVoiceConfig: {
+                        speakerVoiceConfigs: request.speakers.map(({ speaker, voiceName }) => ({
+                            speaker,
+                            voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+                        })),
+                    },
+                }
+                : {
+                    voiceConfig: {
+                        prebuiltVoiceConfig: { voiceName: request.voiceName },
+                    },
+                },
+        },
+    });
+    reportUsage(response, request);
+
+    const inlineData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData;
+    return inlineData?.data ? { mimeType: inlineData.mimeType || 'audio/L16;rate=24000', data: inlineData.data } : null;
+}
+
+async function describeImage(request: DescribeImageRequest): Promise<string> {
+    const response = await getClient().models.generateContent({
+        model: request.model,
+        contents: {
+            parts: [
+                { inlineData: request.image },
+                { text: request.prompt },
+            ],
+        },
+        config: { abortSignal: request.signal },
+    });
+    reportUsage(response, request);
+    return (response.text || '').trim();
+}
+
+export const googleProvider: GenerationProvider = {
+    id: 'google',
+    videoPollIntervalMs: 10000,
+    editImage,
+    generateImage,
+    startVideoGeneration,
+    getVideoOperation,
+    downloadVideo,
+    generateSpeech,
+    describeImage,
+};
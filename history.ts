@@ -0,0 +1,280 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file contains the generation history. Every image, video and audio
+// file a run produces is kept in IndexedDB with the prompt, mode and inputs
+// that made it, so it outlives the results panel, which is cleared on every
+// run and mode switch. The History gallery filters the items by mode,
+// product and date, searches their prompts, and can download an item again
+// or load its prompt and inputs back into the editor.
+
+import * as state from './state';
+import * as db from './db';
+import { closeModal, getModeDefinition, openModal, switchMode } from './ui';
+import { whenModeRestored } from './projects';
+import { localDay } from './usage';
+
+interface HistoryItem {
+    id: string;
+    filename: string;
+    blob: Blob;
+    info: state.AssetInfo;
+    projectId: string | null;
+    projectName: string | null;
+    productKey: string | null; // Hash of the product image, shared by everything made from it.
+}
+
+interface HistoryFilters {
+    query: string;
+    mode: state.AppMode | '';
+    productKey: string;
+    from: string; // YYYY-MM-DD, inclusive.
+    to: string;
+}
+
+const PAGE_SIZE = 48;
+
+// --- DOM ELEMENTS ---
+let historyButton: HTMLButtonElement;
+let globalStatusEl: HTMLElement;
+
+let items: HistoryItem[] = [];
+let filters: HistoryFilters = { query: '', mode: '', productKey: '', from: '', to: '' };
+let shownCount = PAGE_SIZE;
+let galleryUrls: string[] = [];
+let openBody: HTMLElement | null = null;
+
+// --- RECORDING ---
+
+function hashText(text: string): string {
+    // FNV-1a is plenty to tell uploads apart; it is not used for anything secret.
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36);
+}
+
+function productInput(info: state.AssetInfo): string {
+    return state.assetInput(info, 'product') || state.assetInput(info, 'reference');
+}
+
+/**
+ * Adds a newly generated output to the results list and stores a copy in
+ * the history in the background. Outputs put back from a saved project are
+ * not new, so they go straight into `state.generatedAssetUrls` instead.
+ */
+export function addGeneratedAsset(asset: state.GeneratedAsset) {
+    state.generatedAssetUrls.push(asset);
+    const info = asset.info || { mode: state.activeMode, label: asset.filename, createdAt: Date.now() };
+    const project = state.activeProject;
+    fetch(asset.url).then(response => response.blob()).then(async blob => {
+        // Subtitles and other text files stay out of the gallery.
+        if (!/^(image|video|audio)\//.test(blob.type)) return;
+        const product = productInput(info);
+        const item: HistoryItem = {
+            id: `history-${info.createdAt}-${Math.random().toString(36).slice(2, 8)}`,
+            filename: asset.filename,
+            blob,
+            info,
+            projectId: project?.id || null,
+            projectName: project?.name || null,
+            productKey: product ? hashText(product) : null,
+        };
+        await db.putRecord('history', item);
+        if (openBody?.isConnected) {
+            items.unshift(item);
+            renderProducts(openBody);
+            renderGallery(openBody);
+        }
+    }).catch(error => console.warn(`Could not add ${asset.filename} to the history:`, error));
+}
+
+// --- GALLERY ---
+
+function matchingItems(): HistoryItem[] {
+    const query = filters.query.trim().toLowerCase();
+    return items.filter(item => {
+        if (filters.mode && item.info.mode !== filters.mode) return false;
+        if (filters.productKey && item.productKey !== filters.productKey) return false;
+        const day = localDay(item.info.createdAt);
+        if (filters.from && day < filters.from) return false;
+        if (filters.to && day > filters.to) return false;
+        return !query || `${item.info.prompt || ''} ${item.info.instruction || ''} ${item.filename}`.toLowerCase().includes(query);
+    });
+}
+
+function itemMedia(item: HistoryItem, url: string): string {
+    if (item.blob.type.startsWith('video/')) return `<video src="${url}" controls muted playsinline></video>`;
+    if (item.blob.type.startsWith('audio/')) return `<audio src="${url}" controls></audio>`;
+    return `<img src="${url}" alt="" loading="lazy">`;
+}
+
+function canSendToEditor(item: HistoryItem) {
+    return Boolean(getModeDefinition(item.info.mode)?.fromAsset && (item.info.prompt || item.info.inputs?.length));
+}
+
+/** Shows one thumbnail per product image, so the gallery can be narrowed to one product. */
+function renderProducts(body: HTMLElement) {
+    const products = new Map<string, string>();
+    items.forEach(item => {
+        if (item.productKey && !products.has(item.productKey)) products.set(item.productKey, productInput(item.info));
+    });
+    const container = body.querySelector('.history-products') as HTMLElement;
+    container.classList.toggle('hidden', products.size === 0);
+    container.innerHTML = `<button class="tab-button ${filters.productKey ? '' : 'active'}" data-product-key="">All products</button>`;
+    products.forEach((base64, key) => {
+        container.insertAdjacentHTML('beforeend', `
+            <button class="history-product ${filters.productKey === key ? 'active' : ''}" data-product-key="${key}" title="Show outputs of this product">
+                <img src="data:image/png;base64,${base64}" alt="Product">
+            </button>`);
+    });
+}
+
+function renderGallery(body: HTMLElement) {
+    galleryUrls.forEach(url => URL.revokeObjectURL(url));
+    galleryUrls = [];
+
+    const matches = matchingItems();
+    const grid = body.querySelector('.history-grid') as HTMLElement;
+    grid.innerHTML = '';
+    (body.querySelector('.history-count') as HTMLElement).textContent = items.length === 0
+        ? 'Nothing generated yet. Every image, video and audio file you generate will appear here.'
+        : `${matches.length} of ${items.length} items`;
+
+    matches.slice(0, shownCount).forEach(item => {
+        const url = URL.createObjectURL(item.blob);
+        galleryUrls.push(url);
+        const card = document.createElement('div');
+        card.className = 'history-item';
+        card.dataset.historyId = item.id;
+        card.innerHTML = `
+            <div class="history-media">${itemMedia(item, url)}</div>
+            <p class="card-prompt"></p>
+            <p class="history-meta"></p>
+            <div class="card-actions">
+                <a href="${url}" download="${item.filename}" class="card-button">Download</a>
+                ${canSendToEditor(item) ? `<button class="card-button" data-history-action="edit">Send to Editor</button>` : ''}
+                <button class="card-button" data-history-action="delete">Delete</button>
+            </div>`;
+        (card.querySelector('.card-prompt') as HTMLElement).textContent = item.info.instruction
+            ? `Refined: ${item.info.instruction}`
+            : item.info.overlay ? `Overlay: ${item.info.overlay}` : item.info.prompt || item.filename;
+        (card.querySelector('.history-meta') as HTMLElement).textContent = [
+            state.MODE_LABELS[item.info.mode],
+            new Date(item.info.createdAt).toLocaleString(),
+            item.projectName,
+        ].filter(Boolean).join(' · ');
+        grid.appendChild(card);
+    });
+    (body.querySelector('[data-history-action="more"]') as HTMLElement).classList.toggle('hidden', matches.length <= shownCount);
+}
+
+/**
+ * Opens the item's mode and puts the prompt and inputs that made it back
+ * into the editor. The mode's other settings are kept.
+ */
+async function sendToEditor(item: HistoryItem) {
+    const mode = item.info.mode;
+    closeModal();
+    if (state.activeMode !== mode) {
+        switchMode(mode);
+        await whenModeRestored();
+    }
+    const definition = getModeDefinition(mode);
+    if (!definition?.fromAsset || !definition.restore) return;
+    definition.restore({ ...definition.capture?.(), ...definition.fromAsset(item.info) });
+    globalStatusEl.textContent = `Loaded the prompt and inputs of ${item.filename} into ${state.MODE_LABELS[mode]}.`;
+}
+
+async function openHistory() {
+    const body = document.createElement('div');
+    body.className = 'history-view';
+    body.innerHTML = `
+        <div class="history-filters">
+            <input type="search" id="history-search" placeholder="Search prompts">
+            <select id="history-mode">
+                <option value="">All modes</option>
+                ${Object.entries(state.MODE_LABELS).map(([mode, label]) => `<option value="${mode}">${label}</option>`).join('')}
+            </select>
+            <label>From <input type="date" id="history-from"></label>
+            <label>To <input type="date" id="history-to"></label>
+        </div>
+        <div class="history-products tabs-container"></div>
+        <p class="mode-info history-count">Loading history...</p>
+        <div class="history-grid"></div>
+        <div class="prompt-controls">
+            <button class="enhance-prompt-btn hidden" data-history-action="more">Show More</button>
+        </div>`;
+    const searchInput = body.querySelector('#history-search') as HTMLInputElement;
+    const modeSelect = body.querySelector('#history-mode') as HTMLSelectElement;
+    const fromInput = body.querySelector('#history-from') as HTMLInputElement;
+    const toInput = body.querySelector('#history-to') as HTMLInputElement;
+    searchInput.value = filters.query;
+    modeSelect.value = filters.mode;
+    fromInput.value = filters.from;
+    toInput.value = filters.to;
+
+    body.querySelector('.history-filters')!.addEventListener('input', () => {
+        filters = { ...filters, query: searchInput.value, mode: modeSelect.value as HistoryFilters['mode'], from: fromInput.value, to: toInput.value };
+        shownCount = PAGE_SIZE;
+        renderGallery(body);
+    });
+
+    body.addEventListener('click', async (e) => {
+        const target = e.target as HTMLElement;
+        const productButton = target.closest<HTMLElement>('[data-product-key]');
+        if (productButton) {
+            filters.productKey = productButton.dataset.productKey!;
+            shownCount = PAGE_SIZE;
+            renderProducts(body);
+            renderGallery(body);
+            return;
+        }
+        const action = target.closest<HTMLElement>('[data-history-action]')?.dataset.historyAction;
+        const item = items.find(entry => entry.id === target.closest<HTMLElement>('.history-item')?.dataset.historyId);
+        switch (action) {
+            case 'more':
+                shownCount += PAGE_SIZE;
+                renderGallery(body);
+                break;
+            case 'edit':
+                if (item) await sendToEditor(item);
+                break;
+            case 'delete':
+                if (!item || !confirm(`Delete ${item.filename} from the history?`)) return;
+                await db.deleteRecord('history', item.id);
+                items = items.filter(entry => entry !== item);
+                renderProducts(body);
+                renderGallery(body);
+                break;
+        }
+    });
+
+    openBody = body;
+    openModal('History', body);
+    try {
+        items = (await db.getAllRecords<HistoryItem>('history')).sort((a, b) => b.info.createdAt - a.info.createdAt);
+    } catch (error) {
+        console.error('Could not load the history:', error);
+        (body.querySelector('.history-count') as HTMLElement).textContent = 'The history could not be loaded from local storage.';
+        return;
+    }
+    shownCount = PAGE_SIZE;
+    renderProducts(body);
+    renderGallery(body);
+}
+
+// --- INITIALIZATION ---
+
+export function initializeHistory() {
+    historyButton = document.querySelector('#history-button')!;
+    globalStatusEl = document.querySelector('#global-status')!;
+
+    historyButton.addEventListener('click', openHistory);
+}
@@ -0,0 +1,232 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file contains the area editor for image result cards. The user
+// brushes a mask over the part of the image that is wrong and says what it
+// should show instead. The image editing model repaints the picture, and
+// only the masked part of its output is blended back onto the original, so
+// the rest of the image stays pixel for pixel the same. The result is added
+// to the card's Refine versions.
+
+import * as state from './state';
+import * as api from './api';
+import { closeModal, confirmWithinBudget, openModal } from './ui';
+import { registerCardAction, scheduleForCard } from './job-cards';
+import { errorMessageHtml } from './errors';
+import { addCardVersion } from './refine';
+import type { InlineData } from './providers';
+
+type MaskTool = 'brush' | 'erase';
+
+const DEFAULT_BRUSH_SIZE = 40;
+const MASK_COLOR = '#ff00ff';
+
+function createCanvas(width: number, height: number) {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+}
+
+function canvasToInlineData(canvas: HTMLCanvasElement): InlineData {
+    return { mimeType: 'image/png', data: canvas.toDataURL('image/png').split(',')[1] };
+}
+
+function maskIsEmpty(mask: HTMLCanvasElement) {
+    const pixels = mask.getContext('2d')!.getImageData(0, 0, mask.width, mask.height).data;
+    for (let i = 3; i < pixels.length; i += 4) {
+        if (pixels[i] > 0) return false;
+    }
+    return true;
+}
+
+/** The mask filled with one solid color, keeping its shape. */
+function solidMask(mask: HTMLCanvasElement, color: string, blur = 0) {
+    const canvas = createCanvas(mask.width, mask.height);
+    const ctx = canvas.getContext('2d')!;
+    if (blur > 0) ctx.filter = `blur(${blur}px)`;
+    ctx.drawImage(mask, 0, 0);
+    ctx.filter = 'none';
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    return canvas;
+}
+
+function imageCanvas(image: HTMLImageElement) {
+    const canvas = createCanvas(image.naturalWidth, image.naturalHeight);
+    canvas.getContext('2d')!.drawImage(image, 0, 0);
+    return canvas;
+}
+
+/** The original with the masked area painted over, which tells the model where to work. */
+function markedImage(original: HTMLImageElement, mask: HTMLCanvasElement) {
+    const canvas = imageCanvas(original);
+    canvas.getContext('2d')!.drawImage(solidMask(mask, MASK_COLOR), 0, 0);
+    return canvas;
+}
+
+/**
+ * Blends the masked part of the model's output onto the original. The mask
+ * edge is feathered so the seam does not show, and the output is scaled to
+ * the original's size in case the model returned a different one.
+ */
+async function compositeResult(original: HTMLImageElement, mask: HTMLCanvasElement, result: InlineData): Promise<string> {
+    const repainted = await state.loadImage(`data:${result.mimeType};base64,${result.data}`);
+    const { width, height } = mask;
+    const feather = Math.max(2, Math.round(Math.min(width, height) / 200));
+
+    const patch = createCanvas(width, height);
+    const patchCtx = patch.getContext('2d')!;
+    patchCtx.drawImage(repainted, 0, 0, width, height);
+    patchCtx.globalCompositeOperation = 'destination-in';
+    patchCtx.drawImage(solidMask(mask, '#000', feather), 0, 0);
+
+    const output = createCanvas(width, height);
+    const ctx = output.getContext('2d')!;
+    ctx.drawImage(original, 0, 0, width, height);
+    ctx.drawImage(patch, 0, 0);
+    return output.toDataURL('image/png');
+}
+
+async function regenerateArea(card: HTMLElement, original: HTMLImageElement, mask: HTMLCanvasElement, instruction: string) {
+    const statusEl = document.createElement('div');
+    statusEl.className = 'inpaint-status';
+    statusEl.innerHTML = `<p class="status loading">Regenerating the selected area...</p>`;
+    card.querySelector(':scope > .card-actions')!.after(statusEl);
+    card.classList.add('loading');
+    try {
+        const image = canvasToInlineData(imageCanvas(original));
+        const marked = canvasToInlineData(markedImage(original, mask));
+        const result = await scheduleForCard(card, {
+            label: 'Regenerate area', model: api.IMAGE_EDIT_MODEL, priority: 'high',
+            run: (attempt, signal) => api.inpaintImage(image, marked, instruction, signal),
+        });
+        const imageUrl = await compositeResult(original, mask, result);
+        addCardVersion(card, { imageUrl, filename: `inpainted-image-${Date.now()}.png`, model: api.IMAGE_EDIT_MODEL }, { instruction });
+        statusEl.remove();
+    } catch (error: any) {
+        statusEl.innerHTML = errorMessageHtml(error);
+    } finally {
+        // A failed or cancelled edit leaves the card's current image in place.
+        card.classList.remove('loading', 'cancelled');
+    }
+}
+
+async function openAreaEditor(card: HTMLElement) {
+    const src = card.querySelector<HTMLImageElement>(':scope > .image-container img')?.getAttribute('src');
+    if (!src) return;
+    const original = await state.loadImage(src).catch(error => {
+        const body = document.createElement('div');
+        body.innerHTML = errorMessageHtml(error);
+        openModal('Fix an Area', body);
+        return null;
+    });
+    if (!original) return;
+    const mask = createCanvas(original.naturalWidth, original.naturalHeight);
+    const maskCtx = mask.getContext('2d')!;
+    let tool: MaskTool = 'brush';
+    let lastPoint: { x: number; y: number } | null = null;
+
+    const body = document.createElement('div');
+    body.className = 'inpaint-editor';
+    body.innerHTML = `
+        <p class="mode-info">Paint over the part to fix, then say what it should show instead. Everything outside the painted area is kept as it is.</p>
+        <div class="inpaint-toolbar">
+            <div class="tabs-container">
+                <button class="tab-button active" data-tool="brush">Brush</button>
+                <button class="tab-button" data-tool="erase">Erase</button>
+            </div>
+            <label>Size <input type="range" class="inpaint-size" min="5" max="150" value="${DEFAULT_BRUSH_SIZE}"></label>
+            <button class="enhance-prompt-btn" data-inpaint-action="clear">Clear Mask</button>
+        </div>
+        <div class="inpaint-stage"></div>
+        <textarea class="inpaint-instruction" rows="2" placeholder="e.g. a natural hand with five fingers holding the bottle"></textarea>
+        <p class="inpaint-message mode-info"></p>
+        <div class="prompt-controls">
+            <button class="btn-primary" data-inpaint-action="apply">Regenerate Area</button>
+        </div>`;
+    const stage = body.querySelector('.inpaint-stage') as HTMLElement;
+    const sizeInput = body.querySelector('.inpaint-size') as HTMLInputElement;
+    const instructionInput = body.querySelector('.inpaint-instruction') as HTMLTextAreaElement;
+    const messageEl = body.querySelector('.inpaint-message') as HTMLElement;
+    const preview = original.cloneNode() as HTMLImageElement;
+    preview.alt = 'Image to edit';
+    mask.className = 'inpaint-mask';
+    stage.append(preview, mask);
+
+    // Brush sizes are in screen pixels, whatever the image's real size.
+    const toCanvas = (e: PointerEvent) => {
+        const rect = mask.getBoundingClientRect();
+        const scale = mask.width / rect.width;
+        return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, width: parseInt(sizeInput.value, 10) * scale };
+    };
+    const paint = (e: PointerEvent) => {
+        const point = toCanvas(e);
+        maskCtx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+        maskCtx.strokeStyle = MASK_COLOR;
+        maskCtx.lineWidth = point.width;
+        maskCtx.lineCap = 'round';
+        maskCtx.lineJoin = 'round';
+        maskCtx.beginPath();
+        maskCtx.moveTo(lastPoint?.x ?? point.x, lastPoint?.y ?? point.y);
+        maskCtx.lineTo(point.x, point.y);
+        maskCtx.stroke();
+        lastPoint = point;
+    };
+    mask.addEventListener('pointerdown', (e) => {
+        mask.setPointerCapture(e.pointerId);
+        lastPoint = null;
+        paint(e);
+    });
+    mask.addEventListener('pointermove', (e) => {
+        if (mask.hasPointerCapture(e.pointerId)) paint(e);
+    });
+    mask.addEventListener('pointerup', () => { lastPoint = null; });
+
+    body.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        const toolButton = target.closest<HTMLElement>('[data-tool]');
+        if (toolButton) {
+            tool = toolButton.dataset.tool as MaskTool;
+            body.querySelectorAll('[data-tool]').forEach(button => button.classList.toggle('active', button === toolButton));
+            return;
+        }
+        switch (target.closest<HTMLElement>('[data-inpaint-action]')?.dataset.inpaintAction) {
+            case 'clear':
+                maskCtx.clearRect(0, 0, mask.width, mask.height);
+                break;
+            case 'apply': {
+                const instruction = instructionInput.value.trim();
+                if (maskIsEmpty(mask)) {
+                    messageEl.textContent = 'Paint over the area to change first.';
+                } else if (!instruction) {
+                    messageEl.textContent = 'Say what the painted area should show.';
+                } else if (confirmWithinBudget([{ model: api.IMAGE_EDIT_MODEL, images: 1 }])) {
+                    closeModal();
+                    regenerateArea(card, original, mask, instruction);
+                }
+                break;
+            }
+        }
+    });
+
+    openModal('Fix an Area', body);
+}
+
+/**
+ * Adds Fix Area to every image result card.
+ */
+export function initializeInpaint() {
+    registerCardAction({
+        className: 'inpaint-button', label: 'Fix Area',
+        appliesTo: card => !!card.querySelector(':scope > .image-container img'),
+        onClick: card => {
+            if (!card.classList.contains('loading')) openAreaEditor(card);
+        },
+    });
+}
@@ -0,0 +1,117 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file links result cards to their scheduler jobs. While a card is
+// waiting or generating it carries a Cancel button that cancels its job,
+// and a card whose job was cancelled is marked as such. It also keeps the
+// buttons other features add to a card's actions row, such as Refine.
+
+import { JobSpec, schedule } from './scheduler';
+import { JobCancelledError } from './errors';
+
+/** A button added to the actions row of every result card it applies to. */
+export interface CardAction {
+    className: string;
+    label: string;
+    /** Whether the card should show the button, checked whenever its markup changes. */
+    appliesTo: (card: HTMLElement) => boolean;
+    onClick: (card: HTMLElement) => void;
+}
+
+const cardControllers = new WeakMap<HTMLElement, AbortController>();
+const cardActions: CardAction[] = [];
+
+/**
+ * Schedules a job on behalf of a result card. The card shows a Cancel
+ * button until the job settles, and gets the `cancelled` class if the job
+ * is cancelled from the card, the Queue panel or Cancel All.
+ */
+export function scheduleForCard<T>(card: HTMLElement, spec: JobSpec<T>): Promise<T> {
+    const controller = new AbortController();
+    cardControllers.set(card, controller);
+    card.classList.remove('cancelled');
+    syncCancelButton(card);
+    return schedule({ ...spec, signal: controller.signal }).catch(error => {
+        if (error instanceof JobCancelledError) card.classList.add('cancelled');
+        throw error;
+    }).finally(() => {
+        if (cardControllers.get(card) === controller) cardControllers.delete(card);
+        syncCancelButton(card);
+    });
+}
+
+/**
+ * Cards rewrite their own markup as a job progresses, so the button is put
+ * back whenever a card that is still loading loses it, and removed once the
+ * card has settled.
+ */
+function syncCancelButton(card: HTMLElement) {
+    const button = card.querySelector(':scope > .cancel-card-button');
+    const cancellable = card.classList.contains('loading') && cardControllers.has(card);
+    if (cancellable && !button) {
+        card.insertAdjacentHTML('beforeend', `<button class="card-button cancel-card-button">Cancel</button>`);
+    } else if (!cancellable && button) {
+        button.remove();
+    }
+}
+
+/**
+ * Adds a button to every result card it applies to. Buttons appear in the
+ * order they were registered.
+ */
+export function registerCardAction(action: CardAction) {
+    cardActions.push(action);
+}
+
+/** Cards rewrite their markup as jobs finish, so each action's button is added whenever a card lacks it. */
+function syncCardActions(card: HTMLElement) {
+    const actions = card.querySelector(':scope > .card-actions');
+    if (!actions) return;
+    cardActions.forEach(action => {
+        if (actions.querySelector(`.${action.className}`) || !action.appliesTo(card)) return;
+        const button = document.createElement('button');
+        button.className = `card-button ${action.className}`;
+        button.textContent = action.label;
+        actions.appendChild(button);
+    });
+}
+
+/**
+ * Watches the results container so every cancellable card keeps its
+ * Cancel button and every card keeps its registered actions, and handles
+ * clicks on those buttons.
+ */
+export function initializeJobCards(resultsContainer: HTMLElement) {
+    new MutationObserver(records => {
+        const cards = new Set<HTMLElement>();
+        records.forEach(record => {
+            const card = (record.target as HTMLElement).closest?.<HTMLElement>('.result-item');
+            if (card) cards.add(card);
+            record.addedNodes.forEach(node => {
+                if (node instanceof HTMLElement && node.classList.contains('result-item')) cards.add(node);
+            });
+        });
+        cards.forEach(card => {
+            syncCancelButton(card);
+            syncCardActions(card);
+        });
+    }).observe(resultsContainer, { childList: true, subtree: true, attributes: true, attributeFilter: ['class'] });
+
+    resultsContainer.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        const card = target.closest<HTMLElement>('.result-item');
+        if (!card) return;
+        const button = target.closest<HTMLButtonElement>('.cancel-card-button');
+        if (button) {
+            button.disabled = true;
+            cardControllers.get(card)?.abort();
+            return;
+        }
+        const action = cardActions.find(action => target.closest(`.${action.className}`));
+        action?.onClick(card);
+    });
+}
@@ -0,0 +1,221 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file implements an offline generation backend. Every call returns
+// deterministic local output (placeholder PNGs, short MP4s and WAV tones)
+// derived from its inputs, so the app can be developed without an API key.
+
+import { ArrayBufferTarget, Muxer } from 'mp4-muxer';
+import type {
+    DescribeImageRequest,
+    GenerationProvider,
+    ImageEditRequest,
+    ImageEditResponse,
+    InlineData,
+    SpeechRequest,
+    TextToImageRequest,
+    VideoOperation,
+    VideoRequest,
+} from './providers';
+import { sleep } from './api';
+import { pcmToWav } from './audio-export';
+
+const MOCK_PALETTE = ['#1e3a5f', '#5f1e4b', '#1e5f3a', '#5f4b1e', '#3a1e5f', '#1e5b5f'];
+const MOCK_LATENCY_MS = 400;
+const VIDEO_FPS = 12;
+const VIDEO_SECONDS = 2;
+const AUDIO_SAMPLE_RATE = 24000;
+
+/** FNV-1a hash, used to turn prompts into stable colors, tones and ids. */
+function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/** Roughly four characters per token, as the Gemini docs suggest for estimates. */
+function estimateTokens(text: string) {
+    return Math.ceil(text.length / 4);
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+/** Returns even pixel dimensions for a ratio such as "9:16", with the long side at `longSide`. */
+function dimensionsForRatio(aspectRatio: string, longSide: number) {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    if (!w || !h) return { width: longSide, height: longSide };
+    const even = (n: number) => Math.round(n / 2) * 2;
+    return w >= h
+        ? { width: longSide, height: even(longSide * h / w) }
+        : { width: even(longSide * w / h), height: longSide };
+}
+
+function drawPlaceholder(ctx: CanvasRenderingContext2D, width: number, height: number, seed: number, label: string) {
+    ctx.fillStyle = MOCK_PALETTE[seed % MOCK_PALETTE.length];
+    ctx.fillRect(0, 0, width, height);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
+    ctx.lineWidth = Math.max(2, width / 200);
+    ctx.strokeRect(width * 0.05, height * 0.05, width * 0.9, height * 0.9);
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = `bold ${Math.round(width / 12)}px sans-serif`;
+    ctx.fillText('MOCK', width / 2, height / 2 - width / 14);
+    ctx.font = `${Math.round(width / 32)}px sans-serif`;
+    ctx.fillText(label.slice(0, 40), width / 2, height / 2 + width / 20);
+}
+
+function renderPng(width: number, height: number, seed: number, label: string): InlineData {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    drawPlaceholder(canvas.getContext('2d')!, width, height, seed, label);
+    return { mimeType: 'image/png', data: canvas.toDataURL('image/png').split(',')[1] };
+}
+
+async function renderMp4(width: number, height: number, seed: number, label: string): Promise<Blob> {
+    if (typeof VideoEncoder === 'undefined') {
+        throw new Error('The mock provider needs WebCodecs (VideoEncoder) to render videos.');
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+
+    const muxer = new Muxer({
+        target: new ArrayBufferTarget(),
+        video: { codec: 'avc', width, height },
+        fastStart: 'in-memory',
+    });
+    let encodeError: Error | null = null;
+    const encoder = new VideoEncoder({
+        output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+        error: (e) => { encodeError = e; },
+    });
+    encoder.configure({ codec: 'avc1.42001f', width, height, bitrate: 1_000_000, framerate: VIDEO_FPS });
+
+    const frameCount = VIDEO_FPS * VIDEO_SECONDS;
+    for (let i = 0; i < frameCount; i++) {
+        drawPlaceholder(ctx, width, height, seed, label);
+        // A sweeping bar makes playback visibly distinct from a still image.
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+        ctx.fillRect((i / frameCount) * width, height - height * 0.04, width / frameCount, height * 0.02);
+        const frame = new VideoFrame(canvas, { timestamp: Math.round(i * 1e6 / VIDEO_FPS) });
+        encoder.encode(frame, { keyFrame: i % VIDEO_FPS === 0 });
+        frame.close();
+    }
+    await encoder.flush();
+    encoder.close();
+    if (encodeError) throw encodeError;
+    muxer.finalize();
+    return new Blob([muxer.target.buffer], { type: 'video/mp4' });
+}
+
+/** Renders sine tones played one after another as mono 16-bit PCM. */
+function renderTones(tones: { frequency: number; seconds: number }[]): Uint8Array {
+    const toneSamples = tones.map(tone => Math.round(AUDIO_SAMPLE_RATE * tone.seconds));
+    const sampleCount = toneSamples.reduce((sum, n) => sum + n, 0);
+    const view = new DataView(new ArrayBuffer(sampleCount * 2));
+    let offset = 0;
+    tones.forEach((tone, t) => {
+        const length = toneSamples[t];
+        for (let i = 0; i < length; i++) {
+            // Short fades at both ends avoid clicks.
+            const envelope = Math.min(1, i / 480, (length - i) / 480);
+            const sample = Math.sin(2 * Math.PI * tone.frequency * i / AUDIO_SAMPLE_RATE) * 0.3 * envelope;
+            view.setInt16((offset + i) * 2, Math.round(sample * 0x7fff), true);
+        }
+        offset += length;
+    });
+    return new Uint8Array(view.buffer);
+}
+
+/** Wraps the tones as a WAV file, the container the mock returns speech in. */
+async function tonesToWav(tones: { frequency: number; seconds: number }[]): Promise<InlineData> {
+    const wav = pcmToWav(renderTones(tones), AUDIO_SAMPLE_RATE);
+    return { mimeType: 'audio/wav', data: bytesToBase64(new Uint8Array(await wav.arrayBuffer())) };
+}
+
+async function editImage(request: ImageEditRequest): Promise<ImageEditResponse> {
+    await sleep(MOCK_LATENCY_MS, request.signal);
+    request.onUsage?.({ inputTokens: estimateTokens(request.prompt) + request.images.length * 258, outputTokens: 1290 });
+    // Like the real image editing model, the mock ignores the requested ratio and returns a square.
+    const seed = hashString(request.prompt + request.images.map(image => image.data.length).join(','));
+    return { image: renderPng(1024, 1024, seed, request.prompt.trim()), text: null };
+}
+
+async function generateImage(request: TextToImageRequest): Promise<InlineData | null> {
+    await sleep(MOCK_LATENCY_MS, request.signal);
+    const { width, height } = dimensionsForRatio(request.aspectRatio, 1024);
+    return renderPng(width, height, hashString(request.prompt), request.prompt.trim());
+}
+
+async function startVideoGeneration(request: VideoRequest): Promise<VideoOperation> {
+    await sleep(MOCK_LATENCY_MS, request.signal);
+    // Everything needed to render the result is encoded in the name, so polling stays stateless.
+    const seed = hashString(request.prompt + request.image.data.length);
+    return { name: `mock/operations/${seed.toString(16)}_${request.aspectRatio}`, done: false };
+}
+
+async function getVideoOperation(operation: VideoOperation, signal?: AbortSignal): Promise<VideoOperation> {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const id = operation.name.split('/').pop() || '';
+    return { ...operation, done: true, videoUri: `mock://videos/${id}` };
+}
+
+async function downloadVideo(operation: VideoOperation, signal?: AbortSignal): Promise<Blob> {
+    signal?.throwIfAborted();
+    const [seedHex, aspectRatio] = (operation.videoUri || '').split('/').pop()!.split('_');
+    const { width, height } = dimensionsForRatio(aspectRatio || '1:1', 640);
+    return renderMp4(width, height, parseInt(seedHex, 16) || 0, `video ${seedHex}`);
+}
+
+/** Each voice gets its own pitch; length roughly follows the text. */
+function toneForLine(voiceName: string, text: string) {
+    return { frequency: 180 + (hashString(voiceName) % 220), seconds: Math.min(10, Math.max(1, text.length * 0.06)) };
+}
+
+async function generateSpeech(request: SpeechRequest): Promise<InlineData | null> {
+    await sleep(MOCK_LATENCY_MS, request.signal);
+    request.onUsage?.({ inputTokens: estimateTokens(request.text) });
+    if (!request.speakers?.length) {
+        return tonesToWav([toneForLine(request.voiceName, request.text)]);
+    }
+    // Dialogue: one tone per "Speaker: line", in the speaker's pitch.
+    const tones = request.text.split('\n').flatMap(line => {
+        const voice = request.speakers!.find(s => line.startsWith(`${s.speaker}:`));
+        return voice ? [toneForLine(voice.voiceName, line.slice(voice.speaker.length + 1).trim())] : [];
+    });
+    return tonesToWav(tones.length ? tones : [toneForLine(request.voiceName, request.text)]);
+}
+
+async function describeImage(request: DescribeImageRequest): Promise<string> {
+    await sleep(MOCK_LATENCY_MS, request.signal);
+    request.onUsage?.({ inputTokens: estimateTokens(request.prompt) + 258, outputTokens: 8 });
+    return `mock subject ${hashString(request.image.data).toString(16)}`;
+}
+
+export const mockProvider: GenerationProvider = {
+    id: 'mock',
+    videoPollIntervalMs: 1000,
+    editImage,
+    generateImage,
+    startVideoGeneration,
+    getVideoOperation,
+    downloadVideo,
+    generateSpeech,
+    describeImage,
+};
@@ -0,0 +1,51 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file holds the model ids and what each model can do. It imports
+// nothing, so modules that api.ts itself depends on (such as the scheduler)
+// can read them at load time without running into an import cycle.
+
+export const TEXT_MODEL = 'gemini-2.5-flash';
+export const IMAGE_EDIT_MODEL = 'gemini-2.5-flash-image';
+export const IMAGE_MODEL = 'imagen-4.0-generate-001';
+export const VIDEO_MODEL = 'veo-3.1-fast-generate-preview';
+export const SPEECH_MODEL = 'gemini-2.5-flash-preview-tts';
+
+/** Every aspect ratio the app offers: square, then portrait, then landscape. */
+export const ASPECT_RATIOS = ['1:1', '4:5', '3:4', '9:16', '16:9', '4:3'];
+
+// The ratios each image and video model can produce. Imagen and Veo take the
+// ratio as a setting. The image editing model only gets it as a prompt hint,
+// but normalize.ts fits its output to the ratio, so it can offer all of them.
+export const MODEL_ASPECT_RATIOS: Record<string, string[]> = {
+    [IMAGE_EDIT_MODEL]: ASPECT_RATIOS,
+    [IMAGE_MODEL]: ['1:1', '3:4', '9:16', '16:9', '4:3'],
+    [VIDEO_MODEL]: ['9:16', '16:9'],
+};
+
+export function supportedAspectRatios(model: string): string[] {
+    return MODEL_ASPECT_RATIOS[model] || ['1:1'];
+}
+
+/** The ratio a mode starts on: square where the model supports it. */
+export function defaultAspectRatio(model: string): string {
+    const ratios = supportedAspectRatios(model);
+    return ratios.includes('1:1') ? '1:1' : ratios[0];
+}
+
+/** Width divided by height, e.g. 0.5625 for "9:16". */
+export function parseRatio(aspectRatio: string): number {
+    const [width, height] = aspectRatio.split(':').map(Number);
+    return width > 0 && height > 0 ? width / height : 1;
+}
+
+/** The ratio from `candidates` nearest to the given one, or to a width and height. */
+export function closestAspectRatio(ratio: string | number, candidates: string[] = ASPECT_RATIOS): string {
+    const value = typeof ratio === 'number' ? ratio : parseRatio(ratio);
+    return candidates.reduce((best, candidate) =>
+        Math.abs(Math.log(parseRatio(candidate) / value)) < Math.abs(Math.log(parseRatio(best) / value)) ? candidate : best);
+}
@@ -0,0 +1,186 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file makes image outputs match the aspect ratio that was asked for.
+// The image editing model only gets the ratio as a hint in its prompt, so
+// its outputs come back at whatever size it picked. Each one is checked,
+// then cropped around its most detailed part or padded with a blurred copy
+// of itself, and optionally resized to the platform size for its ratio.
+
+import * as state from './state';
+import { parseRatio } from './models';
+
+export type FitMode = 'crop' | 'pad';
+
+export interface OutputSettings {
+    fit: FitMode;
+    /** Resize to the platform size for the ratio, or keep the model's resolution. */
+    platformSize: boolean;
+}
+
+export interface PlatformSize {
+    width: number;
+    height: number;
+    label: string;
+}
+
+// Upload sizes the common social platforms expect for each ratio.
+export const PLATFORM_SIZES: Record<string, PlatformSize> = {
+    '9:16': { width: 1080, height: 1920, label: 'TikTok / Reels / Shorts' },
+    '4:5': { width: 1080, height: 1350, label: 'Feed portrait' },
+    '3:4': { width: 1080, height: 1440, label: 'Portrait' },
+    '1:1': { width: 1080, height: 1080, label: 'Feed square' },
+    '4:3': { width: 1440, height: 1080, label: 'Landscape' },
+    '16:9': { width: 1920, height: 1080, label: 'YouTube / landscape video' },
+};
+
+const SETTINGS_KEY = 'roket-video-maker.output-settings';
+// Ratios this close to the target are left alone rather than losing a few pixels.
+const RATIO_TOLERANCE = 0.01;
+// Detail is measured on a small copy of the image; that is enough to place a crop.
+const ANALYSIS_SIZE = 96;
+
+// --- DOM ELEMENTS ---
+let outputSizeSelect: HTMLSelectElement;
+let outputFitSelect: HTMLSelectElement;
+
+// --- SETTINGS ---
+
+export function getOutputSettings(): OutputSettings {
+    try {
+        const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+        return { fit: stored.fit === 'pad' ? 'pad' : 'crop', platformSize: stored.platformSize !== false };
+    } catch {
+        return { fit: 'crop', platformSize: true };
+    }
+}
+
+function setOutputSettings(settings: OutputSettings) {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// --- IMAGE PROCESSING ---
+
+/**
+ * Picks where a crop window of the given share of the image should start,
+ * along the axis being cropped. The window goes where the image has the most
+ * edges, which is usually the product and the person rather than the backdrop.
+ * Returns a fraction of the image's length on that axis.
+ */
+function detailedCropStart(image: HTMLImageElement, horizontal: boolean, windowShare: number): number {
+    const scale = ANALYSIS_SIZE / Math.max(image.naturalWidth, image.naturalHeight);
+    const width = Math.max(1, Math.round(image.naturalWidth * scale));
+    const height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.drawImage(image, 0, 0, width, height);
+    const pixels = ctx.getImageData(0, 0, width, height).data;
+
+    const luma = (x: number, y: number) => {
+        const i = (y * width + x) * 4;
+        return 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+    };
+    const length = horizontal ? width : height;
+    const energy = new Array<number>(length).fill(0);
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const gradient = Math.abs(luma(x + 1, y) - luma(x - 1, y)) + Math.abs(luma(x, y + 1) - luma(x, y - 1));
+            energy[horizontal ? x : y] += gradient;
+        }
+    }
+
+    const windowLength = Math.max(1, Math.round(length * windowShare));
+    let sum = energy.slice(0, windowLength).reduce((a, b) => a + b, 0);
+    const center = (length - windowLength) / 2;
+    // A slight pull towards the middle breaks ties on evenly detailed images.
+    const score = (start: number, total: number) => total * (1 - 0.1 * Math.abs(start - center) / Math.max(1, center));
+    let best = { start: 0, score: score(0, sum) };
+    for (let start = 1; start + windowLength <= length; start++) {
+        sum += energy[start + windowLength - 1] - energy[start - 1];
+        const candidate = score(start, sum);
+        if (candidate > best.score) best = { start, score: candidate };
+    }
+    return best.start / length;
+}
+
+/**
+ * Checks an image's real size against the requested aspect ratio, crops or
+ * pads it to that ratio and resizes it to the platform size when that is
+ * turned on. Returns the image unchanged when nothing needs to be done.
+ */
+export async function normalizeImage(imageUrl: string, aspectRatio: string): Promise<string> {
+    const settings = getOutputSettings();
+    const image = await state.loadImage(imageUrl);
+    const sourceWidth = image.naturalWidth;
+    const sourceHeight = image.naturalHeight;
+    const targetRatio = parseRatio(aspectRatio);
+    const sourceRatio = sourceWidth / sourceHeight;
+    const ratioMatches = Math.abs(sourceRatio / targetRatio - 1) <= RATIO_TOLERANCE;
+    const preset = settings.platformSize ? PLATFORM_SIZES[aspectRatio] : undefined;
+    if (ratioMatches && (!preset || (preset.width === sourceWidth && preset.height === sourceHeight))) return imageUrl;
+
+    // Without a preset, the output keeps the source's resolution on the side that is not cropped or padded.
+    let width: number;
+    let height: number;
+    if (preset) {
+        ({ width, height } = preset);
+    } else if ((settings.fit === 'crop') === (sourceRatio > targetRatio)) {
+        height = sourceHeight;
+        width = Math.round(sourceHeight * targetRatio);
+    } else {
+        width = sourceWidth;
+        height = Math.round(sourceWidth / targetRatio);
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+
+    if (ratioMatches) {
+        ctx.drawImage(image, 0, 0, width, height);
+    } else if (settings.fit === 'crop') {
+        const horizontal = sourceRatio > targetRatio;
+        const cropWidth = horizontal ? sourceHeight * targetRatio : sourceWidth;
+        const cropHeight = horizontal ? sourceHeight : sourceWidth / targetRatio;
+        const start = detailedCropStart(image, horizontal, horizontal ? cropWidth / sourceWidth : cropHeight / sourceHeight);
+        const x = horizontal ? Math.min(start * sourceWidth, sourceWidth - cropWidth) : 0;
+        const y = horizontal ? 0 : Math.min(start * sourceHeight, sourceHeight - cropHeight);
+        ctx.drawImage(image, x, y, cropWidth, cropHeight, 0, 0, width, height);
+    } else {
+        // A blurred, enlarged copy fills the bars, so the padding blends in instead of showing as borders.
+        const cover = Math.max(width / sourceWidth, height / sourceHeight);
+        ctx.filter = `blur(${Math.round(Math.max(width, height) / 40)}px) brightness(0.85)`;
+        ctx.drawImage(image, (width - sourceWidth * cover) / 2, (height - sourceHeight * cover) / 2, sourceWidth * cover, sourceHeight * cover);
+        ctx.filter = 'none';
+        const contain = Math.min(width / sourceWidth, height / sourceHeight);
+        ctx.drawImage(image, (width - sourceWidth * contain) / 2, (height - sourceHeight * contain) / 2, sourceWidth * contain, sourceHeight * contain);
+    }
+    return canvas.toDataURL('image/png');
+}
+
+// --- INITIALIZATION ---
+
+/**
+ * Initializes the output size and fit selectors in the results header.
+ */
+export function initializeOutputSettings() {
+    outputSizeSelect = document.querySelector('#output-size-select')!;
+    outputFitSelect = document.querySelector('#output-fit-select')!;
+
+    const settings = getOutputSettings();
+    outputSizeSelect.value = settings.platformSize ? 'platform' : 'model';
+    outputFitSelect.value = settings.fit;
+    outputSizeSelect.title = Object.entries(PLATFORM_SIZES).map(([ratio, size]) => `${ratio}: ${size.width}×${size.height} (${size.label})`).join('\n');
+
+    const save = () => setOutputSettings({ fit: outputFitSelect.value as FitMode, platformSize: outputSizeSelect.value === 'platform' });
+    outputSizeSelect.addEventListener('change', save);
+    outputFitSelect.addEventListener('change', save);
+}
@@ -0,0 +1,516 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file contains brand overlays: a logo, text blocks and badges such as
+// a price tag or a call to action, composited onto results client-side. A
+// template keeps the position, size, font and colors of every layer, so the
+// same branding lands in the same place on every output. Images get the
+// overlay as a new Refine version; videos are re-encoded with the overlay
+// burned into every frame.
+
+import * as state from './state';
+import { closeModal, openModal } from './ui';
+import { errorMessageHtml } from './errors';
+import { addGeneratedAsset } from './history';
+import { addCardVersion } from './refine';
+import { registerCardAction } from './job-cards';
+import { assembleVideo } from './assemble';
+import { closestAspectRatio } from './models';
+
+export type OverlayLayerKind = 'logo' | 'text' | 'badge';
+
+export interface OverlayLayer {
+    id: string;
+    kind: OverlayLayerKind;
+    text: string; // Unused by the logo.
+    x: number; // Center of the layer, as a fraction of the frame's width.
+    y: number; // Center of the layer, as a fraction of the frame's height.
+    size: number; // Font size, or the logo's width, as a fraction of the frame's shorter side.
+    font: string;
+    color: string;
+    background: string; // Fill behind a badge's text.
+}
+
+export interface OverlayTemplate {
+    id: string;
+    name: string;
+    logo: string | null; // PNG data URL, scaled down on upload so it fits in localStorage.
+    layers: OverlayLayer[];
+    builtIn?: boolean;
+}
+
+/** Layer settings edited as text in the layer list; `size` is the only numeric one. */
+type LayerField = 'text' | 'font' | 'color' | 'background' | 'size';
+
+const STORAGE_KEY = 'roket-video-maker.overlay-templates';
+const LAST_TEMPLATE_KEY = 'roket-video-maker.overlay-template';
+const MAX_LOGO_SIZE = 512;
+const LINE_HEIGHT = 1.2;
+
+const FONTS = [
+    { label: 'Space Grotesk', value: `'Space Grotesk', sans-serif` },
+    { label: 'Sans', value: 'Arial, Helvetica, sans-serif' },
+    { label: 'Heavy', value: `'Arial Black', Impact, sans-serif` },
+    { label: 'Serif', value: 'Georgia, serif' },
+    { label: 'Mono', value: `'Courier New', monospace` },
+];
+
+const BUILT_IN_TEMPLATES: OverlayTemplate[] = [
+    {
+        id: 'builtin-price-cta',
+        name: 'Logo, Harga & CTA',
+        logo: null,
+        layers: [
+            { id: 'logo', kind: 'logo', text: '', x: 0.15, y: 0.08, size: 0.22, font: FONTS[0].value, color: '#ffffff', background: '' },
+            { id: 'price', kind: 'badge', text: 'Rp 99.000', x: 0.78, y: 0.1, size: 0.06, font: FONTS[2].value, color: '#ffffff', background: '#e11d48' },
+            { id: 'cta', kind: 'badge', text: 'Beli Sekarang', x: 0.5, y: 0.88, size: 0.07, font: FONTS[2].value, color: '#111111', background: '#facc15' },
+        ],
+        builtIn: true,
+    },
+    {
+        id: 'builtin-promo-headline',
+        name: 'Promo Headline',
+        logo: null,
+        layers: [
+            { id: 'headline', kind: 'text', text: 'PROMO HARI INI', x: 0.5, y: 0.12, size: 0.09, font: FONTS[2].value, color: '#ffffff', background: '' },
+            { id: 'discount', kind: 'badge', text: 'Diskon 50%', x: 0.5, y: 0.22, size: 0.06, font: FONTS[0].value, color: '#ffffff', background: '#e11d48' },
+            { id: 'logo', kind: 'logo', text: '', x: 0.5, y: 0.9, size: 0.2, font: FONTS[0].value, color: '#ffffff', background: '' },
+        ],
+        builtIn: true,
+    },
+];
+
+let customTemplates: OverlayTemplate[] = [];
+
+// --- STORAGE ---
+
+function loadCustomTemplates(): OverlayTemplate[] {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+        console.error('Could not load saved overlay templates:', error);
+        return [];
+    }
+}
+
+/** Throws when the browser's storage is full, which large logos can cause. */
+function saveCustomTemplates() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(customTemplates));
+}
+
+export function getOverlayTemplates(): OverlayTemplate[] {
+    return [...BUILT_IN_TEMPLATES, ...customTemplates];
+}
+
+function copyTemplate(template: OverlayTemplate): OverlayTemplate {
+    return { ...template, layers: template.layers.map(layer => ({ ...layer })) };
+}
+
+// --- DRAWING ---
+
+/** Sets up the context for a text layer and returns its lines and font size. */
+function setTextStyle(ctx: CanvasRenderingContext2D, layer: OverlayLayer, width: number, height: number) {
+    const fontSize = Math.max(8, layer.size * Math.min(width, height));
+    ctx.font = `bold ${fontSize}px ${layer.font}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    return { fontSize, lines: layer.text.split('\n') };
+}
+
+/** The area a layer covers on a frame of the given size, badge padding included. */
+function layerBox(ctx: CanvasRenderingContext2D, layer: OverlayLayer, logo: HTMLImageElement | null, width: number, height: number) {
+    const centerX = layer.x * width;
+    const centerY = layer.y * height;
+    let boxWidth = 0;
+    let boxHeight = 0;
+    if (layer.kind === 'logo') {
+        if (logo) {
+            boxWidth = layer.size * Math.min(width, height);
+            boxHeight = boxWidth * logo.naturalHeight / logo.naturalWidth;
+        }
+    } else {
+        ctx.save();
+        const { fontSize, lines } = setTextStyle(ctx, layer, width, height);
+        const padding = layer.kind === 'badge' ? fontSize * 0.5 : 0;
+        boxWidth = Math.max(...lines.map(line => ctx.measureText(line).width)) + padding * 2;
+        boxHeight = lines.length * fontSize * LINE_HEIGHT + padding;
+        ctx.restore();
+    }
+    return { x: centerX - boxWidth / 2, y: centerY - boxHeight / 2, width: boxWidth, height: boxHeight };
+}
+
+/**
+ * Draws a template's layers onto a frame, in order, so later layers sit on
+ * top. Used for image results, the editor preview and every video frame.
+ */
+export function drawOverlay(ctx: CanvasRenderingContext2D, template: OverlayTemplate, logo: HTMLImageElement | null, width: number, height: number) {
+    template.layers.forEach(layer => {
+        const box = layerBox(ctx, layer, logo, width, height);
+        ctx.save();
+        if (layer.kind === 'logo') {
+            if (logo) ctx.drawImage(logo, box.x, box.y, box.width, box.height);
+        } else {
+            const { fontSize, lines } = setTextStyle(ctx, layer, width, height);
+            if (layer.kind === 'badge') {
+                ctx.fillStyle = layer.background;
+                ctx.beginPath();
+                ctx.roundRect(box.x, box.y, box.width, box.height, fontSize * 0.35);
+                ctx.fill();
+            } else {
+                ctx.lineWidth = Math.max(2, fontSize / 8);
+                ctx.lineJoin = 'round';
+                ctx.strokeStyle = 'rgba(0, 0, 0, 0.85)';
+            }
+            ctx.fillStyle = layer.color;
+            const top = layer.y * height - (lines.length * fontSize * LINE_HEIGHT) / 2;
+            lines.forEach((line, i) => {
+                const y = top + fontSize * LINE_HEIGHT * (i + 0.5);
+                if (layer.kind === 'text') ctx.strokeText(line, layer.x * width, y);
+                ctx.fillText(line, layer.x * width, y);
+            });
+        }
+        ctx.restore();
+    });
+}
+
+/** Scales an uploaded logo down and returns it as a PNG data URL, keeping its transparency. */
+async function prepareLogo(file: File): Promise<string> {
+    const image = await state.loadImage(`data:${file.type};base64,${await state.fileToBase64(file)}`);
+    const scale = Math.min(1, MAX_LOGO_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+}
+
+// --- APPLYING ---
+
+async function applyToImage(card: HTMLElement, source: HTMLImageElement, template: OverlayTemplate, logo: HTMLImageElement | null) {
+    const canvas = document.createElement('canvas');
+    canvas.width = source.naturalWidth;
+    canvas.height = source.naturalHeight;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(source, 0, 0);
+    drawOverlay(ctx, template, logo, canvas.width, canvas.height);
+    addCardVersion(card, { imageUrl: canvas.toDataURL('image/png'), filename: `overlay-image-${Date.now()}.png` }, { overlay: template.name });
+}
+
+/**
+ * Re-encodes a video result with the overlay burned into every frame and
+ * shows the output in a new card after the original.
+ */
+async function burnIntoVideo(card: HTMLElement, videoUrl: string, template: OverlayTemplate, logo: HTMLImageElement | null) {
+    const sourceName = card.querySelector<HTMLAnchorElement>(':scope > .card-actions a[download]')?.download || videoUrl;
+    const sourceInfo = state.generatedAssetUrls.find(asset => asset.url === videoUrl)?.info;
+    const resultItem = document.createElement('div');
+    resultItem.className = 'result-item status loading';
+    resultItem.innerHTML = `<p></p>`;
+    (resultItem.querySelector('p') as HTMLElement).textContent = `Adding the "${template.name}" overlay...`;
+    card.after(resultItem);
+
+    try {
+        const { blob, width, height } = await assembleVideo({
+            clipUrls: [videoUrl],
+            transition: 'cut',
+            transitionDuration: 0,
+            voiceOver: null,
+            keepSceneAudio: true,
+            overlay: (ctx, width, height) => drawOverlay(ctx, template, logo, width, height),
+            onProgress: (message) => { resultItem.innerHTML = `<p>${message}</p>`; },
+        });
+        const url = URL.createObjectURL(blob);
+        const filename = `overlay-video-${Date.now()}.mp4`;
+        const aspectClass = state.aspectClass(sourceInfo?.aspectRatio || closestAspectRatio(width / height));
+        addGeneratedAsset({ url, filename, info: {
+            ...(sourceInfo || { mode: state.activeMode }),
+            label: `${sourceInfo?.label || 'video'}-overlay`, overlay: template.name, sources: [sourceName], createdAt: Date.now(),
+        } });
+        resultItem.innerHTML = `
+            <div class="video-container ${aspectClass}">
+                <video src="${url}" controls loop muted></video>
+            </div>
+            <p class="card-prompt"></p>
+            <div class="card-actions">
+                <a href="${url}" download="${filename}" class="card-button">Download</a>
+            </div>`;
+        (resultItem.querySelector('.card-prompt') as HTMLElement).textContent = `Overlay: ${template.name}`;
+    } catch (error: any) {
+        console.error('Burning the overlay failed:', error);
+        resultItem.innerHTML = errorMessageHtml(error);
+    }
+    resultItem.classList.remove('loading');
+}
+
+// --- EDITOR ---
+
+function layerRow(layer: OverlayLayer): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'overlay-layer';
+    row.dataset.layerId = layer.id;
+    const label = layer.kind === 'logo' ? 'Logo' : layer.kind === 'badge' ? 'Badge' : 'Text';
+    row.innerHTML = `
+        <span class="overlay-layer-kind">${label}</span>
+        ${layer.kind === 'logo' ? '' : `
+            <input type="text" data-field="text" placeholder="Text">
+            <select data-field="font">${FONTS.map(font => `<option value="${font.value}">${font.label}</option>`).join('')}</select>
+            <input type="color" data-field="color" title="Text color">
+            ${layer.kind === 'badge' ? `<input type="color" data-field="background" title="Badge color">` : ''}`}
+        <label>Size <input type="range" data-field="size" min="0.02" max="${layer.kind === 'logo' ? 0.6 : 0.2}" step="0.005"></label>
+        <button class="enhance-prompt-btn" data-overlay-action="remove-layer" title="Remove layer">&times;</button>`;
+    row.querySelectorAll<HTMLInputElement | HTMLSelectElement>('[data-field]').forEach(input => {
+        input.value = String(layer[input.dataset.field as keyof OverlayLayer]);
+    });
+    return row;
+}
+
+function setLayerField(layer: OverlayLayer, field: LayerField, value: string) {
+    if (field === 'size') {
+        layer.size = parseFloat(value);
+    } else {
+        layer[field] = value;
+    }
+}
+
+/**
+ * Opens the overlay editor for an image or video card. Layers are moved by
+ * dragging them on the preview; every other setting is in the layer list.
+ * Unsaved changes still apply, so a one-off tweak needs no new template.
+ */
+async function openOverlayEditor(card: HTMLElement) {
+    const image = card.querySelector<HTMLImageElement>(':scope > .image-container img');
+    const video = card.querySelector<HTMLVideoElement>(':scope > .video-container video');
+    const source = image ? await state.loadImage(image.getAttribute('src')!).catch(error => {
+        const body = document.createElement('div');
+        body.innerHTML = errorMessageHtml(error);
+        openModal('Brand Overlay', body);
+        return null;
+    }) : video;
+    if (!source || (source instanceof HTMLVideoElement && source.readyState < 2)) return;
+    const sourceWidth = source instanceof HTMLImageElement ? source.naturalWidth : source.videoWidth;
+    const sourceHeight = source instanceof HTMLImageElement ? source.naturalHeight : source.videoHeight;
+
+    const templates = getOverlayTemplates();
+    const lastId = localStorage.getItem(LAST_TEMPLATE_KEY);
+    let draft = copyTemplate(templates.find(template => template.id === lastId) || templates[0]);
+    let logo: HTMLImageElement | null = null;
+    let dragging: { layer: OverlayLayer; offsetX: number; offsetY: number } | null = null;
+
+    const body = document.createElement('div');
+    body.className = 'overlay-editor';
+    body.innerHTML = `
+        <p class="mode-info">Drag a layer on the preview to move it. Changes apply right away and can be kept with Save Template.</p>
+        <div class="overlay-toolbar">
+            <select class="overlay-template-select"></select>
+            <input type="text" class="overlay-name" placeholder="Template name">
+        </div>
+        <div class="overlay-stage"><canvas class="overlay-preview"></canvas></div>
+        <div class="overlay-layers"></div>
+        <div class="overlay-toolbar">
+            <button class="enhance-prompt-btn" data-overlay-action="add-text">Add Text</button>
+            <button class="enhance-prompt-btn" data-overlay-action="add-badge">Add Badge</button>
+            <label class="enhance-prompt-btn">Upload Logo<input type="file" class="overlay-logo-input hidden" accept="image/png,image/jpeg,image/webp"></label>
+        </div>
+        <p class="overlay-message mode-info"></p>
+        <div class="prompt-controls">
+            <button class="enhance-prompt-btn" data-overlay-action="delete">Delete Template</button>
+            <button class="enhance-prompt-btn" data-overlay-action="save">Save Template</button>
+            <button class="btn-primary" data-overlay-action="apply">${image ? 'Apply to Image' : 'Burn into Video'}</button>
+        </div>`;
+    const templateSelect = body.querySelector('.overlay-template-select') as HTMLSelectElement;
+    const nameInput = body.querySelector('.overlay-name') as HTMLInputElement;
+    const preview = body.querySelector('.overlay-preview') as HTMLCanvasElement;
+    const layersEl = body.querySelector('.overlay-layers') as HTMLElement;
+    const logoInput = body.querySelector('.overlay-logo-input') as HTMLInputElement;
+    const messageEl = body.querySelector('.overlay-message') as HTMLElement;
+    preview.width = sourceWidth;
+    preview.height = sourceHeight;
+    const previewCtx = preview.getContext('2d')!;
+
+    const renderPreview = () => {
+        previewCtx.clearRect(0, 0, preview.width, preview.height);
+        previewCtx.drawImage(source, 0, 0, preview.width, preview.height);
+        drawOverlay(previewCtx, draft, logo, preview.width, preview.height);
+    };
+    const renderTemplateSelect = () => {
+        templateSelect.replaceChildren(...getOverlayTemplates()
+            .map(template => new Option(`${template.builtIn ? 'Built-in: ' : ''}${template.name}`, template.id)));
+        templateSelect.value = draft.id;
+    };
+    const loadDraft = async (template: OverlayTemplate) => {
+        draft = copyTemplate(template);
+        nameInput.value = draft.name;
+        layersEl.innerHTML = '';
+        draft.layers.forEach(layer => layersEl.appendChild(layerRow(layer)));
+        try {
+            logo = draft.logo ? await state.loadImage(draft.logo) : null;
+            messageEl.textContent = draft.layers.some(layer => layer.kind === 'logo') && !draft.logo
+                ? 'This template has a logo layer. Upload your logo to show it.'
+                : '';
+        } catch (error) {
+            console.error('Could not load the template logo:', error);
+            logo = null;
+            messageEl.textContent = 'The saved logo could not be loaded. Upload it again to show it.';
+        }
+        renderPreview();
+    };
+
+    // Hit testing runs in the preview's own pixels, whatever size it is shown at.
+    const toPreview = (e: PointerEvent) => {
+        const rect = preview.getBoundingClientRect();
+        return { x: (e.clientX - rect.left) * preview.width / rect.width, y: (e.clientY - rect.top) * preview.height / rect.height };
+    };
+    preview.addEventListener('pointerdown', (e) => {
+        const point = toPreview(e);
+        const layer = [...draft.layers].reverse().find(candidate => {
+            const box = layerBox(previewCtx, candidate, logo, preview.width, preview.height);
+            return point.x >= box.x && point.x <= box.x + box.width && point.y >= box.y && point.y <= box.y + box.height;
+        });
+        if (!layer) return;
+        preview.setPointerCapture(e.pointerId);
+        dragging = { layer, offsetX: point.x - layer.x * preview.width, offsetY: point.y - layer.y * preview.height };
+    });
+    preview.addEventListener('pointermove', (e) => {
+        if (!dragging || !preview.hasPointerCapture(e.pointerId)) return;
+        const point = toPreview(e);
+        dragging.layer.x = Math.min(1, Math.max(0, (point.x - dragging.offsetX) / preview.width));
+        dragging.layer.y = Math.min(1, Math.max(0, (point.y - dragging.offsetY) / preview.height));
+        renderPreview();
+    });
+    preview.addEventListener('pointerup', () => { dragging = null; });
+
+    templateSelect.addEventListener('change', () => {
+        const template = getOverlayTemplates().find(candidate => candidate.id === templateSelect.value);
+        if (template) loadDraft(template);
+    });
+    nameInput.addEventListener('input', () => { draft.name = nameInput.value; });
+    layersEl.addEventListener('input', (e) => {
+        const input = e.target as HTMLInputElement;
+        const layer = draft.layers.find(candidate => candidate.id === input.closest<HTMLElement>('.overlay-layer')?.dataset.layerId);
+        const field = input.dataset.field as LayerField | undefined;
+        if (!layer || !field) return;
+        setLayerField(layer, field, input.value);
+        renderPreview();
+    });
+    logoInput.addEventListener('change', async () => {
+        const file = logoInput.files?.[0];
+        logoInput.value = '';
+        if (!file) return;
+        try {
+            const prepared = await prepareLogo(file);
+            logo = await state.loadImage(prepared);
+            draft.logo = prepared;
+        } catch (error) {
+            console.error('Could not read the logo:', error);
+            messageEl.textContent = 'That logo could not be read. Try a PNG, JPEG or WebP image.';
+            return;
+        }
+        if (!draft.layers.some(layer => layer.kind === 'logo')) {
+            const layer: OverlayLayer = { id: state.createId('layer'), kind: 'logo', text: '', x: 0.15, y: 0.08, size: 0.22, font: FONTS[0].value, color: '#ffffff', background: '' };
+            draft.layers.push(layer);
+            layersEl.appendChild(layerRow(layer));
+        }
+        messageEl.textContent = '';
+        renderPreview();
+    });
+
+    body.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        const action = target.closest<HTMLElement>('[data-overlay-action]')?.dataset.overlayAction;
+        switch (action) {
+            case 'add-text':
+            case 'add-badge': {
+                const badge = action === 'add-badge';
+                const layer: OverlayLayer = {
+                    id: state.createId('layer'), kind: badge ? 'badge' : 'text', text: badge ? 'Gratis Ongkir' : 'Teks Baru',
+                    x: 0.5, y: 0.5, size: 0.06, font: FONTS[0].value, color: '#ffffff', background: '#2563eb',
+                };
+                draft.layers.push(layer);
+                layersEl.appendChild(layerRow(layer));
+                renderPreview();
+                break;
+            }
+            case 'remove-layer': {
+                const row = target.closest<HTMLElement>('.overlay-layer')!;
+                draft.layers = draft.layers.filter(layer => layer.id !== row.dataset.layerId);
+                row.remove();
+                renderPreview();
+                break;
+            }
+            case 'save': {
+                const name = draft.name.trim();
+                if (!name) {
+                    messageEl.textContent = 'Give the template a name first.';
+                    break;
+                }
+                // Built-in templates stay as they are; saving one keeps the changes as a new template.
+                const saved: OverlayTemplate = { ...copyTemplate(draft), name, builtIn: undefined };
+                if (draft.builtIn) saved.id = state.createId('overlay');
+                const previous = customTemplates;
+                customTemplates = customTemplates.some(template => template.id === saved.id)
+                    ? customTemplates.map(template => template.id === saved.id ? saved : template)
+                    : [...customTemplates, saved];
+                try {
+                    saveCustomTemplates();
+                } catch (error) {
+                    customTemplates = previous;
+                    messageEl.textContent = 'The template could not be saved. The browser storage may be full; try a smaller logo.';
+                    break;
+                }
+                draft = copyTemplate(saved);
+                localStorage.setItem(LAST_TEMPLATE_KEY, saved.id);
+                renderTemplateSelect();
+                messageEl.textContent = `Saved "${name}".`;
+                break;
+            }
+            case 'delete': {
+                if (draft.builtIn) {
+                    messageEl.textContent = 'Built-in templates cannot be deleted.';
+                    break;
+                }
+                if (!customTemplates.some(template => template.id === draft.id) || !confirm(`Delete the overlay template "${draft.name}"?`)) break;
+                customTemplates = customTemplates.filter(template => template.id !== draft.id);
+                saveCustomTemplates();
+                loadDraft(getOverlayTemplates()[0]).then(renderTemplateSelect);
+                break;
+            }
+            case 'apply': {
+                const template = copyTemplate(draft);
+                localStorage.setItem(LAST_TEMPLATE_KEY, template.id);
+                closeModal();
+                if (source instanceof HTMLImageElement) {
+                    applyToImage(card, source, template, logo);
+                } else {
+                    burnIntoVideo(card, source.currentSrc || source.src, template, logo);
+                }
+                break;
+            }
+        }
+    });
+
+    await loadDraft(draft);
+    renderTemplateSelect();
+    openModal('Brand Overlay', body);
+}
+
+// --- INITIALIZATION ---
+
+/**
+ * Loads the saved templates and adds Overlay to every image and video result card.
+ */
+export function initializeOverlays() {
+    customTemplates = loadCustomTemplates();
+
+    registerCardAction({
+        className: 'overlay-button', label: 'Overlay',
+        appliesTo: card => !!card.querySelector(':scope > .image-container img, :scope > .video-container video'),
+        onClick: card => {
+            if (!card.classList.contains('loading')) openOverlayEditor(card);
+        },
+    });
+}
@@ -0,0 +1,373 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file contains named projects. A project keeps a snapshot of every
+// mode the user has worked in (inputs, prompts, settings and generated
+// outputs), is autosaved to IndexedDB, and can be exported to and imported
+// from a single JSON file. Switching modes saves the mode being left and
+// restores the one being opened, so a mode switch no longer loses work.
+
+import * as state from './state';
+import * as db from './db';
+import { closeModal, getModeDefinition, onModeSwitch, openModal, renderRestoredAsset, switchMode } from './ui';
+
+interface SavedAsset {
+    filename: string;
+    blob: Blob;
+    info?: state.AssetInfo;
+}
+
+interface ModeSnapshot {
+    settings: Record<string, any>;
+    outputs: SavedAsset[];
+}
+
+interface ProjectRecord {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    activeMode: state.AppMode;
+    modes: Partial<Record<state.AppMode, ModeSnapshot>>;
+}
+
+const PROJECT_FILE_FORMAT = 'roket-video-maker-project';
+const PROJECT_FILE_VERSION = 1;
+const LAST_PROJECT_KEY = 'roket-video-maker.last-project';
+const AUTOSAVE_DELAY_MS = 2000;
+
+// --- DOM ELEMENTS ---
+let projectsButton: HTMLButtonElement;
+let projectNameEl: HTMLElement;
+let globalStatusEl: HTMLElement;
+
+let currentProject: ProjectRecord | null = null;
+let isRestoring = false;
+let autosaveTimer: number | undefined;
+let saveChain: Promise<void> = Promise.resolve();
+let pendingRestore: Promise<void> = Promise.resolve();
+// What each mode looked like when it was last saved, so unchanged modes are not written again.
+let savedFingerprints = new Map<state.AppMode, string>();
+
+function createProjectRecord(name: string): ProjectRecord {
+    const now = Date.now();
+    return {
+        id: state.createId('project'),
+        name,
+        createdAt: now,
+        updatedAt: now,
+        activeMode: 'image-studio',
+        modes: {},
+    };
+}
+
+function updateProjectName() {
+    projectNameEl.textContent = currentProject ? currentProject.name : '';
+    state.setActiveProject(currentProject ? { id: currentProject.id, name: currentProject.name } : null);
+}
+
+// --- SAVING ---
+
+function fingerprint(settings: Record<string, any>, assets: state.GeneratedAsset[], activeMode: state.AppMode) {
+    return JSON.stringify([settings, assets.map(asset => [asset.filename, asset.url, asset.info?.createdAt]), activeMode]);
+}
+
+/**
+ * Takes a synchronous snapshot of the active mode, then stores it in the
+ * background when it differs from the last save. Saves run one after
+ * another so an older one never wins.
+ */
+function saveActiveMode(mode: state.AppMode = state.activeMode): Promise<void> {
+    const project = currentProject;
+    const definition = getModeDefinition(mode);
+    if (!project || !definition?.capture || isRestoring) return saveChain;
+
+    const settings = definition.capture();
+    const assets = [...state.generatedAssetUrls];
+    const activeMode = state.activeMode;
+    const current = fingerprint(settings, assets, activeMode);
+    if (savedFingerprints.get(mode) === current) return saveChain;
+    savedFingerprints.set(mode, current);
+
+    saveChain = saveChain.then(async () => {
+        // Outputs that were already saved keep their stored blob instead of being fetched again.
+        const stored = new Map((project.modes[mode]?.outputs || []).map(output => [output.filename, output.blob]));
+        const outputs: SavedAsset[] = [];
+        for (const asset of assets) {
+            try {
+                const blob = stored.get(asset.filename) || await (await fetch(asset.url)).blob();
+                outputs.push({ filename: asset.filename, blob, info: asset.info });
+            } catch (error) {
+                console.warn(`Could not save output ${asset.filename}:`, error);
+            }
+        }
+        project.modes[mode] = { settings, outputs };
+        project.activeMode = activeMode;
+        project.updatedAt = Date.now();
+        await db.putRecord('projects', project);
+    }).catch(error => {
+        savedFingerprints.delete(mode);
+        console.error('Autosave failed:', error);
+        globalStatusEl.textContent = 'Autosave failed. Your browser storage may be full.';
+    });
+    return saveChain;
+}
+
+function scheduleAutosave() {
+    if (!currentProject || isRestoring) return;
+    window.clearTimeout(autosaveTimer);
+    autosaveTimer = window.setTimeout(() => saveActiveMode(), AUTOSAVE_DELAY_MS);
+}
+
+// --- RESTORING ---
+
+async function restoreMode(mode: state.AppMode) {
+    await saveChain;
+    const definition = getModeDefinition(mode);
+    const snapshot = currentProject?.modes[mode];
+    if (!definition?.restore) return;
+
+    isRestoring = true;
+    snapshot?.outputs.forEach(output => {
+        // Each output keeps the ratio it was made at; older saves fall back to the mode's setting.
+        const aspectRatio = output.info?.aspectRatio || snapshot.settings.aspectRatio || '1:1';
+        renderRestoredAsset({ url: URL.createObjectURL(output.blob), filename: output.filename, info: output.info }, output.blob.type, aspectRatio);
+    });
+    definition.restore(snapshot?.settings || {});
+    isRestoring = false;
+}
+
+async function openProject(project: ProjectRecord) {
+    window.clearTimeout(autosaveTimer);
+    await saveActiveMode();
+
+    isRestoring = true;
+    currentProject = project;
+    savedFingerprints = new Map();
+    localStorage.setItem(LAST_PROJECT_KEY, project.id);
+    updateProjectName();
+    // The image modes share these uploads, so clear them before the new project's snapshot is applied.
+    state.setProductImageBase64('');
+    state.setModelImageBase64('');
+    state.setFaceImageBase64('');
+    switchMode(project.activeMode);
+    isRestoring = false;
+    pendingRestore = restoreMode(project.activeMode);
+    await pendingRestore;
+}
+
+/**
+ * Resolves once the most recent mode switch has put the project's saved work back on screen.
+ */
+export function whenModeRestored(): Promise<void> {
+    return pendingRestore;
+}
+
+// --- FILE EXPORT / IMPORT ---
+
+async function exportProject(project: ProjectRecord) {
+    if (project.id === currentProject?.id) await saveActiveMode();
+    const modes: Record<string, unknown> = {};
+    for (const [mode, snapshot] of Object.entries(project.modes)) {
+        if (!snapshot) continue;
+        const outputs = [];
+        for (const output of snapshot.outputs) {
+            outputs.push({ filename: output.filename, mimeType: output.blob.type, data: await state.fileToBase64(output.blob), info: output.info });
+        }
+        modes[mode] = { settings: snapshot.settings, outputs };
+    }
+    const file = {
+        format: PROJECT_FILE_FORMAT,
+        version: PROJECT_FILE_VERSION,
+        name: project.name,
+        createdAt: project.createdAt,
+        updatedAt: project.updatedAt,
+        activeMode: project.activeMode,
+        modes,
+    };
+    state.downloadBlob(
+        new Blob([JSON.stringify(file)], { type: 'application/json' }),
+        `${project.name.replace(/[^\w\- ]+/g, '').trim() || 'project'}.roket-project.json`,
+    );
+}
+
+async function importProject(file: File) {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(await file.text());
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (parsed?.format !== PROJECT_FILE_FORMAT || typeof parsed.modes !== 'object') {
+        throw new Error('This is not a Roket Video Maker project file.');
+    }
+    if (parsed.version > PROJECT_FILE_VERSION) {
+        throw new Error('This project was saved by a newer version of the app.');
+    }
+
+    const project = createProjectRecord(typeof parsed.name === 'string' ? parsed.name : file.name);
+    project.createdAt = parsed.createdAt || project.createdAt;
+    project.activeMode = parsed.activeMode || 'image-studio';
+    for (const [mode, snapshot] of Object.entries<any>(parsed.modes)) {
+        project.modes[mode as state.AppMode] = {
+            settings: snapshot.settings || {},
+            outputs: (snapshot.outputs || []).map((output: any) => ({
+                filename: output.filename,
+                blob: state.base64ToBlob(output.data, output.mimeType),
+                info: output.info,
+            })),
+        };
+    }
+    await db.putRecord('projects', project);
+    return project;
+}
+
+// --- PROJECT PICKER ---
+
+async function renderProjectList(list: HTMLElement) {
+    const projects = (await db.getAllRecords<ProjectRecord>('projects')).sort((a, b) => b.updatedAt - a.updatedAt);
+    list.innerHTML = '';
+    projects.forEach(project => {
+        const row = document.createElement('div');
+        row.className = 'project-row';
+        row.classList.toggle('active', project.id === currentProject?.id);
+        row.dataset.projectId = project.id;
+        row.innerHTML = `
+            <div class="project-row-info">
+                <span class="project-row-name"></span>
+                <span class="project-row-date">Updated ${new Date(project.updatedAt).toLocaleString()}</span>
+            </div>
+            <div class="project-row-actions">
+                <button class="card-button" data-project-action="open">Open</button>
+                <button class="card-button" data-project-action="rename">Rename</button>
+                <button class="card-button" data-project-action="export">Export</button>
+                <button class="card-button" data-project-action="delete">Delete</button>
+            </div>`;
+        (row.querySelector('.project-row-name') as HTMLElement).textContent = project.name;
+        list.appendChild(row);
+    });
+}
+
+async function handleProjectAction(action: string, projectId: string, list: HTMLElement) {
+    const project = await db.getRecord<ProjectRecord>('projects', projectId);
+    if (!project) return;
+    switch (action) {
+        case 'open':
+            closeModal();
+            await openProject(project.id === currentProject?.id ? currentProject : project);
+            break;
+        case 'rename': {
+            const name = prompt('Project name', project.name)?.trim();
+            if (!name) return;
+            const target = project.id === currentProject?.id ? currentProject : project;
+            target.name = name;
+            await db.putRecord('projects', target);
+            updateProjectName();
+            await renderProjectList(list);
+            break;
+        }
+        case 'export':
+            await exportProject(project.id === currentProject?.id ? currentProject : project);
+            break;
+        case 'delete': {
+            if (!confirm(`Delete the project "${project.name}"? This cannot be undone.`)) return;
+            await db.deleteRecord('projects', project.id);
+            if (project.id === currentProject?.id) {
+                // Never leave the app without a project to autosave into.
+                currentProject = null;
+                const remaining = (await db.getAllRecords<ProjectRecord>('projects')).sort((a, b) => b.updatedAt - a.updatedAt);
+                const next = remaining[0] || createProjectRecord('Untitled Project');
+                if (!remaining[0]) await db.putRecord('projects', next);
+                await openProject(next);
+            }
+            await renderProjectList(list);
+            break;
+        }
+    }
+}
+
+function openProjectPicker() {
+    const body = document.createElement('div');
+    body.innerHTML = `
+        <div class="prompt-controls" style="margin-bottom: var(--space-sm);">
+            <button class="enhance-prompt-btn" id="new-project-btn">New Project</button>
+            <button class="enhance-prompt-btn" id="import-project-btn">Import Project File</button>
+        </div>
+        <input type="file" id="import-project-input" accept="application/json,.json" class="sr-only">
+        <div class="project-list"></div>`;
+    const list = body.querySelector('.project-list') as HTMLElement;
+    const importInput = body.querySelector('#import-project-input') as HTMLInputElement;
+
+    body.addEventListener('click', async (e: Event) => {
+        const target = e.target as HTMLElement;
+        const actionBtn = target.closest('[data-project-action]') as HTMLElement | null;
+        if (actionBtn) {
+            const row = actionBtn.closest('.project-row') as HTMLElement;
+            await handleProjectAction(actionBtn.dataset.projectAction!, row.dataset.projectId!, list);
+        } else if (target.id === 'new-project-btn') {
+            const name = prompt('Project name', 'Untitled Project')?.trim();
+            if (!name) return;
+            const project = createProjectRecord(name);
+            await db.putRecord('projects', project);
+            closeModal();
+            await openProject(project);
+        } else if (target.id === 'import-project-btn') {
+            importInput.click();
+        }
+    });
+
+    importInput.addEventListener('change', async () => {
+        const file = importInput.files?.[0];
+        importInput.value = '';
+        if (!file) return;
+        try {
+            const project = await importProject(file);
+            closeModal();
+            await openProject(project);
+            globalStatusEl.textContent = `Imported project "${project.name}".`;
+        } catch (error: any) {
+            globalStatusEl.textContent = `Import failed: ${error.message}`;
+        }
+    });
+
+    openModal('Projects', body);
+    renderProjectList(list);
+}
+
+// --- INITIALIZATION ---
+
+export async function initializeProjects() {
+    projectsButton = document.querySelector('#projects-button')!;
+    projectNameEl = document.querySelector('#current-project-name')!;
+    globalStatusEl = document.querySelector('#global-status')!;
+
+    onModeSwitch({
+        before: (from) => { window.clearTimeout(autosaveTimer); saveActiveMode(from); },
+        after: (to) => { if (!isRestoring) pendingRestore = restoreMode(to); },
+    });
+
+    const generatorApp = document.querySelector('.generator-app') as HTMLElement;
+    ['input', 'change', 'click'].forEach(type => generatorApp.addEventListener(type, scheduleAutosave));
+    new MutationObserver(scheduleAutosave).observe(document.querySelector('#results-container')!, { childList: true, subtree: true });
+
+    projectsButton.addEventListener('click', openProjectPicker);
+
+    try {
+        const projects = await db.getAllRecords<ProjectRecord>('projects');
+        const lastId = localStorage.getItem(LAST_PROJECT_KEY);
+        let project = projects.find(p => p.id === lastId) || projects.sort((a, b) => b.updatedAt - a.updatedAt)[0];
+        if (!project) {
+            project = createProjectRecord('Untitled Project');
+            await db.putRecord('projects', project);
+        }
+        await openProject(project);
+    } catch (error) {
+        console.error('Could not open projects database:', error);
+        projectsButton.disabled = true;
+        globalStatusEl.textContent = 'Projects are unavailable: local storage could not be opened.';
+    }
+}
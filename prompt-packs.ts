@@ -0,0 +1,367 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file contains the "prompt pack" feature. A pack is a named set of
+// image storyboard scenes and video motion prompts for one niche. The
+// built-in skincare pack comes from state.ts; users can add their own,
+// which are kept in localStorage and can be imported and exported as JSON.
+
+import * as state from './state';
+import { closeModal, openModal, populateImageStoryboard, populateVideoStoryboard } from './ui';
+
+export interface PromptPackScene {
+    title: string;
+    prompt: string;
+}
+
+export interface PromptPack {
+    id: string;
+    name: string;
+    niche: string;
+    imageScenes: PromptPackScene[];
+    videoPrompts: string[];
+    builtIn?: boolean;
+}
+
+const STORAGE_KEY = 'roket-video-maker.prompt-packs';
+
+const SKINCARE_SCENE_TITLES = [
+    'Kecewa di Ranjang',
+    'Sedih di Depan Cermin',
+    'Close-up Produk & Harapan',
+    'Meneteskan Produk ke Tangan',
+    'Membilas Wajah',
+    'Wajah Penuh Busa',
+    'Bahagia & Percaya Diri (After)',
+    'Wajah Glowing & Produk (After)',
+    'Bangga Memegang Produk (After)',
+];
+
+const BUILT_IN_PACKS: PromptPack[] = [
+    {
+        id: 'builtin-skincare-acne',
+        name: 'Skincare: Jerawat Before-After',
+        niche: 'skincare',
+        imageScenes: state.STORYBOARD_PROMPTS.map((prompt, i) => ({ title: SKINCARE_SCENE_TITLES[i] || `Pose ${i + 1}`, prompt })),
+        videoPrompts: [...state.VIDEO_STORYBOARD_PROMPTS],
+        builtIn: true,
+    },
+];
+
+// --- DOM ELEMENTS ---
+let imagePackSelect: HTMLSelectElement;
+let videoPackSelect: HTMLSelectElement;
+let sceneSelection: HTMLElement;
+let importInput: HTMLInputElement;
+let globalStatusEl: HTMLElement;
+
+let customPacks: PromptPack[] = [];
+
+// --- STORAGE ---
+
+function loadCustomPacks(): PromptPack[] {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? (JSON.parse(stored) as unknown[]).map(validatePack) : [];
+    } catch (error) {
+        console.error('Could not load saved prompt packs:', error);
+        return [];
+    }
+}
+
+function saveCustomPacks() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(customPacks));
+}
+
+export function getPromptPacks(): PromptPack[] {
+    return [...BUILT_IN_PACKS, ...customPacks];
+}
+
+function findPack(id: string): PromptPack | undefined {
+    return getPromptPacks().find(pack => pack.id === id);
+}
+
+/**
+ * Checks an imported or stored object against the pack format and returns a clean copy.
+ * Throws a user-readable error when a required field is missing.
+ */
+function validatePack(value: unknown): PromptPack {
+    const pack = value as Partial<PromptPack> | null;
+    if (!pack || typeof pack.name !== 'string' || !pack.name.trim()) {
+        throw new Error('Every prompt pack needs a "name".');
+    }
+    if (!Array.isArray(pack.imageScenes) && !Array.isArray(pack.videoPrompts)) {
+        throw new Error(`Prompt pack "${pack.name}" needs "imageScenes" or "videoPrompts".`);
+    }
+    const imageScenes = (pack.imageScenes || []).map((scene: any, i: number) => {
+        const prompt = typeof scene === 'string' ? scene : scene?.prompt;
+        if (typeof prompt !== 'string') {
+            throw new Error(`Scene ${i + 1} in "${pack.name}" has no "prompt".`);
+        }
+        return { title: typeof scene?.title === 'string' ? scene.title : `Scene ${i + 1}`, prompt };
+    });
+    const videoPrompts = (pack.videoPrompts || []).filter((prompt): prompt is string => typeof prompt === 'string');
+    return {
+        id: typeof pack.id === 'string' && !pack.id.startsWith('builtin-') ? pack.id : state.createId('custom'),
+        name: pack.name.trim(),
+        niche: typeof pack.niche === 'string' ? pack.niche : '',
+        imageScenes,
+        videoPrompts,
+    };
+}
+
+// --- UI ---
+
+function renderPackOptions() {
+    [imagePackSelect, videoPackSelect].forEach(select => {
+        const selectedId = select.value;
+        select.innerHTML = '';
+        getPromptPacks().forEach(pack => {
+            const option = document.createElement('option');
+            option.value = pack.id;
+            option.textContent = pack.niche ? `${pack.name} (${pack.niche})` : pack.name;
+            select.appendChild(option);
+        });
+        if (findPack(selectedId)) select.value = selectedId;
+    });
+    renderSceneSelection();
+}
+
+/** Lists the selected pack's image scenes as checkboxes so a subset can be used. */
+function renderSceneSelection() {
+    const pack = findPack(imagePackSelect.value);
+    sceneSelection.innerHTML = '';
+    pack?.imageScenes.forEach((scene, i) => {
+        const item = document.createElement('div');
+        item.className = 'pose-item';
+        item.innerHTML = `
+            <input type="checkbox" id="prompt-pack-scene-${i}" name="prompt-pack-scene" value="${i}">
+            <label for="prompt-pack-scene-${i}"></label>`;
+        (item.querySelector('label') as HTMLElement).textContent = `${i + 1}. ${scene.title}`;
+        sceneSelection.appendChild(item);
+    });
+}
+
+function applyToImageStoryboard() {
+    const pack = findPack(imagePackSelect.value);
+    if (!pack || pack.imageScenes.length === 0) {
+        globalStatusEl.textContent = 'This prompt pack has no image scenes.';
+        return;
+    }
+    // No checked scenes means "use the whole pack".
+    const checked = Array.from(sceneSelection.querySelectorAll<HTMLInputElement>('input:checked')).map(input => parseInt(input.value, 10));
+    const scenes = checked.length > 0 ? checked.map(i => pack.imageScenes[i]) : pack.imageScenes;
+    if (state.imageStoryboardScenes.some(scene => scene.prompt.trim()) && !confirm(`Replace the current scenes with ${scenes.length} scenes from "${pack.name}"?`)) {
+        return;
+    }
+    populateImageStoryboard(scenes.map(scene => scene.prompt));
+    globalStatusEl.textContent = `Loaded ${scenes.length} scenes from "${pack.name}".`;
+}
+
+function applyToVideoStoryboard() {
+    const pack = findPack(videoPackSelect.value);
+    if (!pack || pack.videoPrompts.length === 0) {
+        globalStatusEl.textContent = 'This prompt pack has no video motion prompts.';
+        return;
+    }
+    if (state.storyboardScenes.some(scene => scene.file || scene.prompt.trim()) && !confirm(`Replace the current scenes with ${pack.videoPrompts.length} scenes from "${pack.name}"?`)) {
+        return;
+    }
+    populateVideoStoryboard(pack.videoPrompts);
+    globalStatusEl.textContent = `Loaded ${pack.videoPrompts.length} motion prompts from "${pack.name}". Upload an image for each scene.`;
+}
+
+function downloadJson(data: unknown, filename: string) {
+    state.downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), filename);
+}
+
+function exportPack(pack: PromptPack) {
+    const { id, builtIn, ...portable } = pack;
+    const slug = pack.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    downloadJson(portable, `prompt-pack-${slug || 'untitled'}.json`);
+}
+
+async function importPacks(file: File) {
+    try {
+        const parsed = JSON.parse(await file.text());
+        const imported = (Array.isArray(parsed) ? parsed : [parsed]).map(pack => ({ ...validatePack(pack), id: state.createId('custom') }));
+        customPacks.push(...imported);
+        saveCustomPacks();
+        renderPackOptions();
+        imagePackSelect.value = videoPackSelect.value = imported[imported.length - 1].id;
+        renderSceneSelection();
+        globalStatusEl.textContent = `Imported ${imported.length} prompt pack${imported.length === 1 ? '' : 's'}.`;
+    } catch (error: any) {
+        globalStatusEl.textContent = `Import failed: ${error instanceof SyntaxError ? 'the file is not valid JSON.' : error.message}`;
+    }
+}
+
+function deletePack(pack: PromptPack) {
+    if (pack.builtIn) {
+        globalStatusEl.textContent = 'Built-in prompt packs cannot be deleted.';
+        return;
+    }
+    if (!confirm(`Delete the prompt pack "${pack.name}"?`)) return;
+    customPacks = customPacks.filter(p => p.id !== pack.id);
+    saveCustomPacks();
+    renderPackOptions();
+}
+
+/** Adds one prompt row to a pack or style variation editor, with an optional scene title. */
+export function createEditorRow(container: HTMLElement, withTitle: boolean, title = '', prompt = '', placeholder = 'Prompt...') {
+    const row = document.createElement('div');
+    row.className = 'scene-upload-slot pack-editor-row';
+    row.innerHTML = `
+        ${withTitle ? '<input type="text" class="pack-editor-title" placeholder="Scene title">' : ''}
+        <textarea class="scene-prompt-textarea pack-editor-prompt" rows="3"></textarea>
+        <div class="prompt-controls">
+            <button type="button" class="remove-scene-button">Remove</button>
+        </div>`;
+    if (withTitle) (row.querySelector('.pack-editor-title') as HTMLInputElement).value = title;
+    const textarea = row.querySelector('.pack-editor-prompt') as HTMLTextAreaElement;
+    textarea.placeholder = placeholder;
+    textarea.value = prompt;
+    container.appendChild(row);
+}
+
+/**
+ * Opens the pack editor. Built-in packs are never modified; editing one saves a copy.
+ */
+function openPackEditor(pack: PromptPack | null) {
+    const isCopy = !!pack?.builtIn;
+    const body = document.createElement('div');
+    body.className = 'pack-editor';
+    body.innerHTML = `
+        <div class="form-group">
+            <label for="pack-editor-name">Pack Name</label>
+            <input type="text" id="pack-editor-name" placeholder="e.g., Kuliner: Review Makanan">
+        </div>
+        <div class="form-group">
+            <label for="pack-editor-niche">Niche</label>
+            <input type="text" id="pack-editor-niche" placeholder="e.g., food, fashion, gadgets">
+        </div>
+        <div class="form-group">
+            <label>Image Scenes</label>
+            <div id="pack-editor-image-scenes" class="pack-editor-list"></div>
+            <button type="button" id="pack-editor-add-image" class="btn-secondary" style="width: 100%;">Add Image Scene</button>
+        </div>
+        <div class="form-group">
+            <label>Video Motion Prompts</label>
+            <div id="pack-editor-video-prompts" class="pack-editor-list"></div>
+            <button type="button" id="pack-editor-add-video" class="btn-secondary" style="width: 100%;">Add Motion Prompt</button>
+        </div>
+        <p id="pack-editor-error" class="status-error hidden"></p>
+        <div class="modal-footer">
+            <button type="button" id="pack-editor-cancel" class="btn-secondary">Cancel</button>
+            <button type="button" id="pack-editor-save" class="btn-primary">Save Pack</button>
+        </div>`;
+
+    const nameInput = body.querySelector('#pack-editor-name') as HTMLInputElement;
+    const nicheInput = body.querySelector('#pack-editor-niche') as HTMLInputElement;
+    const imageList = body.querySelector('#pack-editor-image-scenes') as HTMLElement;
+    const videoList = body.querySelector('#pack-editor-video-prompts') as HTMLElement;
+    const errorEl = body.querySelector('#pack-editor-error') as HTMLElement;
+
+    nameInput.value = pack ? (isCopy ? `${pack.name} (Copy)` : pack.name) : '';
+    nicheInput.value = pack?.niche || '';
+    pack?.imageScenes.forEach(scene => createEditorRow(imageList, true, scene.title, scene.prompt));
+    pack?.videoPrompts.forEach(prompt => createEditorRow(videoList, false, '', prompt));
+
+    body.addEventListener('click', (e: Event) => {
+        const target = e.target as HTMLElement;
+        if (target.closest('.remove-scene-button')) {
+            target.closest('.pack-editor-row')?.remove();
+        } else if (target.id === 'pack-editor-add-image') {
+            createEditorRow(imageList, true);
+        } else if (target.id === 'pack-editor-add-video') {
+            createEditorRow(videoList, false);
+        } else if (target.id === 'pack-editor-cancel') {
+            closeModal();
+        } else if (target.id === 'pack-editor-save') {
+            try {
+                const edited = validatePack({
+                    id: pack && !isCopy ? pack.id : undefined,
+                    name: nameInput.value,
+                    niche: nicheInput.value.trim(),
+                    imageScenes: Array.from(imageList.querySelectorAll('.pack-editor-row'))
+                        .map(row => ({
+                            title: (row.querySelector('.pack-editor-title') as HTMLInputElement).value.trim(),
+                            prompt: (row.querySelector('.pack-editor-prompt') as HTMLTextAreaElement).value.trim(),
+                        }))
+                        .filter(scene => scene.prompt)
+                        .map((scene, i) => ({ title: scene.title || `Scene ${i + 1}`, prompt: scene.prompt })),
+                    videoPrompts: Array.from(videoList.querySelectorAll<HTMLTextAreaElement>('.pack-editor-prompt'))
+                        .map(textarea => textarea.value.trim())
+                        .filter(Boolean),
+                });
+                const index = customPacks.findIndex(p => p.id === edited.id);
+                if (index >= 0) customPacks[index] = edited;
+                else customPacks.push(edited);
+                saveCustomPacks();
+                renderPackOptions();
+                imagePackSelect.value = videoPackSelect.value = edited.id;
+                renderSceneSelection();
+                closeModal();
+            } catch (error: any) {
+                errorEl.textContent = error.message;
+                errorEl.classList.remove('hidden');
+            }
+        }
+    });
+
+    openModal(pack ? (isCopy ? 'Copy Prompt Pack' : 'Edit Prompt Pack') : 'New Prompt Pack', body);
+}
+
+function handlePackAction(action: string, select: HTMLSelectElement) {
+    const pack = findPack(select.value);
+    switch (action) {
+        case 'new': openPackEditor(null); break;
+        case 'edit': if (pack) openPackEditor(pack); break;
+        case 'import': importInput.click(); break;
+        case 'export': if (pack) exportPack(pack); break;
+        case 'delete': if (pack) deletePack(pack); break;
+    }
+}
+
+/**
+ * Puts both pack pickers back on the first pack, as ui.ts resets the selects on mode switch.
+ */
+export function resetPromptPackPickers() {
+    if (!imagePackSelect) return;
+    imagePackSelect.selectedIndex = 0;
+    videoPackSelect.selectedIndex = 0;
+    renderSceneSelection();
+}
+
+export function initializePromptPacks() {
+    imagePackSelect = document.querySelector('#image-prompt-pack-select')!;
+    videoPackSelect = document.querySelector('#video-prompt-pack-select')!;
+    sceneSelection = document.querySelector('#storyboard-pose-selection')!;
+    importInput = document.querySelector('#prompt-pack-import-input')!;
+    globalStatusEl = document.querySelector('#global-status')!;
+
+    customPacks = loadCustomPacks();
+    renderPackOptions();
+
+    imagePackSelect.addEventListener('change', renderSceneSelection);
+    document.querySelector('#apply-image-prompt-pack-btn')!.addEventListener('click', applyToImageStoryboard);
+    document.querySelector('#apply-video-prompt-pack-btn')!.addEventListener('click', applyToVideoStoryboard);
+
+    document.querySelectorAll<HTMLElement>('.prompt-pack-actions').forEach(actions => {
+        const select = actions.closest('.form-group')!.querySelector('select') as HTMLSelectElement;
+        actions.addEventListener('click', (e: Event) => {
+            const button = (e.target as HTMLElement).closest('[data-pack-action]') as HTMLElement | null;
+            if (button) handlePackAction(button.dataset.packAction!, select);
+        });
+    });
+
+    importInput.addEventListener('change', async () => {
+        const file = importInput.files?.[0];
+        importInput.value = '';
+        if (file) await importPacks(file);
+    });
+}
@@ -0,0 +1,129 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file defines the generation backend interface used by api.ts.
+// The app ships with the Google implementation and an offline mock, so the
+// UI, queueing and export code can be worked on without a live API key.
+
+import { googleProvider } from './google-provider';
+import { mockProvider } from './mock-provider';
+
+export type ProviderId = 'google' | 'mock';
+
+/** Base64 payload with its MIME type, as sent to or returned by a model. */
+export interface InlineData {
+    mimeType: string;
+    data: string;
+}
+
+/** Token counts reported by a model for one request, where it reports them. */
+export interface TokenUsage {
+    inputTokens?: number;
+    outputTokens?: number;
+}
+
+/** Options every request accepts. */
+export interface RequestOptions {
+    /** Providers stop waiting and reject as soon as it fires, so a cancelled job frees its slot right away. */
+    signal?: AbortSignal;
+    /** Called with the token counts of the response, for the usage ledger. */
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface ImageEditRequest extends RequestOptions {
+    model: string;
+    images: InlineData[];
+    prompt: string;
+}
+
+/** Image editing models may answer with text instead of an image, so both are returned. */
+export interface ImageEditResponse {
+    image: InlineData | null;
+    text: string | null;
+}
+
+export interface TextToImageRequest extends RequestOptions {
+    model: string;
+    prompt: string;
+    aspectRatio: string;
+}
+
+export interface VideoRequest extends RequestOptions {
+    model: string;
+    prompt: string;
+    image: InlineData;
+    aspectRatio: string;
+}
+
+/**
+ * A long-running video operation. Only plain data is kept here so an
+ * operation can be rebuilt from its name alone.
+ */
+export interface VideoOperation {
+    name: string;
+    done: boolean;
+    videoUri?: string;
+    error?: string;
+}
+
+export interface SpeakerVoice {
+    speaker: string;
+    voiceName: string;
+}
+
+export interface SpeechRequest extends RequestOptions {
+    model: string;
+    text: string;
+    voiceName: string;
+    /** When set, `text` is a "Speaker: line" dialogue and each speaker gets their own voice. */
+    speakers?: SpeakerVoice[];
+}
+
+export interface DescribeImageRequest extends RequestOptions {
+    model: string;
+    image: InlineData;
+    prompt: string;
+}
+
+export interface GenerationProvider {
+    readonly id: ProviderId;
+    /** How long api.ts should wait between video operation polls. */
+    readonly videoPollIntervalMs: number;
+    editImage(request: ImageEditRequest): Promise<ImageEditResponse>;
+    generateImage(request: TextToImageRequest): Promise<InlineData | null>;
+    startVideoGeneration(request: VideoRequest): Promise<VideoOperation>;
+    getVideoOperation(operation: VideoOperation, signal?: AbortSignal): Promise<VideoOperation>;
+    downloadVideo(operation: VideoOperation, signal?: AbortSignal): Promise<Blob>;
+    generateSpeech(request: SpeechRequest): Promise<InlineData | null>;
+    describeImage(request: DescribeImageRequest): Promise<string>;
+}
+
+const PROVIDERS: Record<ProviderId, GenerationProvider> = {
+    google: googleProvider,
+    mock: mockProvider,
+};
+
+let activeProvider: GenerationProvider = googleProvider;
+
+export function getProvider(): GenerationProvider {
+    return activeProvider;
+}
+
+/**
+ * Selects the generation backend for this session.
+ * A `?provider=mock` query parameter wins over the `GENAI_PROVIDER` setting in `.env.local`.
+ * @returns The id of the provider that was selected.
+ */
+export function initializeProvider(): ProviderId {
+    const requested = new URLSearchParams(window.location.search).get('provider') || process.env.GENAI_PROVIDER;
+    if (requested && Object.hasOwn(PROVIDERS, requested)) {
+        activeProvider = PROVIDERS[requested as ProviderId];
+    } else if (requested) {
+        console.warn(`Unknown generation provider "${requested}". Falling back to "google".`);
+    }
+    return activeProvider.id;
+}
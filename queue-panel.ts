@@ -0,0 +1,138 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file contains the Queue panel, which lists every job in the
+// scheduler with its model and status. Waiting jobs can be paused,
+// resumed, moved up or down or given another priority, waiting and running
+// jobs can be cancelled, and the whole queue can be paused at once. It also
+// drives the Cancel All button next to Generate.
+
+import * as scheduler from './scheduler';
+
+const STATUS_LABELS: Record<scheduler.JobStatus, string> = {
+    queued: 'Waiting',
+    paused: 'Paused',
+    running: 'Running',
+    done: 'Done',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+};
+
+// --- DOM ELEMENTS ---
+let queueButton: HTMLButtonElement;
+let queueCount: HTMLElement;
+let queuePanel: HTMLElement;
+let queueList: HTMLElement;
+let pauseAllButton: HTMLButtonElement;
+let cancelAllButton: HTMLButtonElement;
+
+let renderPending = false;
+
+// --- CORE FUNCTIONS ---
+
+function renderQueue() {
+    renderPending = false;
+    const jobs = scheduler.getJobs();
+    const active = jobs.filter(job => job.status === 'queued' || job.status === 'running' || job.status === 'paused');
+    queueCount.textContent = String(active.length);
+    queueCount.classList.toggle('hidden', active.length === 0);
+    cancelAllButton.classList.toggle('hidden', active.length === 0);
+    pauseAllButton.textContent = scheduler.isQueuePaused() ? 'Resume All' : 'Pause All';
+
+    queueList.innerHTML = '';
+    if (jobs.length === 0) {
+        queueList.innerHTML = `<li class="mode-info">No jobs yet. Generations will appear here.</li>`;
+        return;
+    }
+    jobs.forEach(job => {
+        const waiting = job.status === 'queued' || job.status === 'paused';
+        const row = document.createElement('li');
+        row.className = `queue-row ${job.status}`;
+        row.dataset.jobId = String(job.id);
+        row.innerHTML = `
+            <div class="queue-row-info">
+                <span class="queue-row-label"></span>
+                <span class="queue-row-meta"></span>
+            </div>
+            <div class="queue-row-actions">
+                <select class="queue-priority" aria-label="Priority" ${waiting ? '' : 'disabled'}>
+                    <option value="high">High</option>
+                    <option value="normal">Normal</option>
+                    <option value="low">Low</option>
+                </select>
+                <button class="card-button" data-job-action="up" aria-label="Move up" ${waiting ? '' : 'disabled'}>↑</button>
+                <button class="card-button" data-job-action="down" aria-label="Move down" ${waiting ? '' : 'disabled'}>↓</button>
+                <button class="card-button" data-job-action="${job.status === 'paused' ? 'resume' : 'pause'}" ${waiting ? '' : 'disabled'}>${job.status === 'paused' ? 'Resume' : 'Pause'}</button>
+                <button class="card-button" data-job-action="cancel" ${waiting || job.status === 'running' ? '' : 'disabled'}>Cancel</button>
+            </div>`;
+        (row.querySelector('.queue-row-label') as HTMLElement).textContent = job.label;
+        (row.querySelector('.queue-row-meta') as HTMLElement).textContent =
+            [STATUS_LABELS[job.status], job.model, job.attempts > 1 ? `try ${job.attempts}` : '', job.note || ''].filter(Boolean).join(' · ');
+        (row.querySelector('.queue-priority') as HTMLSelectElement).value = job.priority;
+        queueList.appendChild(row);
+    });
+}
+
+/** Coalesces bursts of queue changes into one render per frame. */
+function scheduleRender() {
+    if (renderPending) return;
+    renderPending = true;
+    requestAnimationFrame(renderQueue);
+}
+
+function setupEventListeners() {
+    queueButton.addEventListener('click', () => {
+        queuePanel.classList.toggle('hidden');
+    });
+
+    cancelAllButton.addEventListener('click', () => scheduler.cancelAllJobs());
+
+    queuePanel.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        switch (target.closest<HTMLElement>('[data-queue-action]')?.dataset.queueAction) {
+            case 'toggle-pause': scheduler.setQueuePaused(!scheduler.isQueuePaused()); return;
+            case 'cancel-pending': scheduler.cancelAllPending(); return;
+            case 'clear-finished': scheduler.clearFinishedJobs(); return;
+            case 'close': queuePanel.classList.add('hidden'); return;
+        }
+
+        const button = target.closest<HTMLElement>('[data-job-action]');
+        const row = target.closest<HTMLElement>('.queue-row');
+        if (!button || !row) return;
+        const id = parseInt(row.dataset.jobId!, 10);
+        switch (button.dataset.jobAction) {
+            case 'up': scheduler.moveJob(id, -1); break;
+            case 'down': scheduler.moveJob(id, 1); break;
+            case 'pause': scheduler.pauseJob(id); break;
+            case 'resume': scheduler.resumeJob(id); break;
+            case 'cancel': scheduler.cancelJob(id); break;
+        }
+    });
+
+    queueList.addEventListener('change', (e) => {
+        const select = (e.target as HTMLElement).closest<HTMLSelectElement>('.queue-priority');
+        const row = select?.closest<HTMLElement>('.queue-row');
+        if (select && row) scheduler.setJobPriority(parseInt(row.dataset.jobId!, 10), select.value as scheduler.JobPriority);
+    });
+
+    scheduler.onQueueChange(scheduleRender);
+}
+
+/**
+ * Initializes the Queue button and panel and the Cancel All button.
+ */
+export function initializeQueuePanel() {
+    queueButton = document.querySelector('#queue-button')!;
+    queueCount = document.querySelector('#queue-count')!;
+    queuePanel = document.querySelector('#queue-panel')!;
+    queueList = document.querySelector('#queue-list')!;
+    pauseAllButton = queuePanel.querySelector('[data-queue-action="toggle-pause"]')!;
+    cancelAllButton = document.querySelector('#cancel-all-button')!;
+
+    setupEventListeners();
+    renderQueue();
+}
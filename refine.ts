@@ -0,0 +1,205 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file contains Refine, a multi-turn edit session on an image result
+// card. Each follow-up instruction sends the card's current image back to
+// the image editing model, and every result becomes a new version of the
+// card. Any earlier version can be brought back, and refining from it
+// continues the session from there.
+
+import * as state from './state';
+import * as api from './api';
+import { registerCardAction, scheduleForCard } from './job-cards';
+import { errorMessageHtml } from './errors';
+import { addGeneratedAsset } from './history';
+import { normalizeImage } from './normalize';
+import { confirmWithinBudget } from './ui';
+
+interface RefineVersion {
+    imageUrl: string;
+    filename: string;
+    instruction: string | null; // Null for the image the session started from and for overlays.
+    overlay?: string; // Name of the brand overlay template this version added.
+    parent: number | null;
+}
+
+interface RefineSession {
+    versions: RefineVersion[];
+    current: number;
+    info?: state.AssetInfo; // How the first version was made.
+}
+
+const sessions = new WeakMap<HTMLElement, RefineSession>();
+
+function cardImage(card: HTMLElement) {
+    return card.querySelector<HTMLImageElement>(':scope > .image-container img');
+}
+
+/**
+ * Returns the card's session, or starts a new one when the card shows an
+ * image the session did not make, e.g. after Regenerate replaced it.
+ */
+function getSession(card: HTMLElement): RefineSession {
+    const src = cardImage(card)!.getAttribute('src')!;
+    const existing = sessions.get(card);
+    if (existing && existing.versions[existing.current].imageUrl === src) return existing;
+
+    const asset = state.generatedAssetUrls.find(entry => entry.filename === card.dataset.filename)
+        || state.generatedAssetUrls.find(entry => entry.url === src);
+    const session: RefineSession = {
+        versions: [{ imageUrl: src, filename: asset?.filename || `image-${Date.now()}.png`, instruction: null, parent: null }],
+        current: 0,
+        info: asset?.info,
+    };
+    sessions.set(card, session);
+    return session;
+}
+
+/** The instructions that led to a version, oldest first. */
+function instructionChain(session: RefineSession, index: number): string[] {
+    const chain: string[] = [];
+    for (let i: number | null = index; i !== null; i = session.versions[i].parent) {
+        const instruction = session.versions[i].instruction;
+        if (instruction) chain.unshift(instruction);
+    }
+    return chain;
+}
+
+function renderVersions(panel: HTMLElement, session: RefineSession) {
+    const strip = panel.querySelector('.refine-versions') as HTMLElement;
+    strip.innerHTML = '';
+    session.versions.forEach((version, i) => {
+        const button = document.createElement('button');
+        button.className = 'refine-version';
+        button.classList.toggle('active', i === session.current);
+        button.dataset.versionIndex = String(i);
+        button.title = version.instruction || (version.overlay ? `Overlay: ${version.overlay}` : 'Original');
+        button.innerHTML = `<img src="${version.imageUrl}" alt=""><span>v${i + 1}</span>`;
+        strip.appendChild(button);
+    });
+    (panel.querySelector('.refine-versions-hint') as HTMLElement).classList.toggle('hidden', session.versions.length < 2);
+}
+
+/** Shows a version on the card and makes it the one the next instruction edits. */
+function showVersion(card: HTMLElement, session: RefineSession, index: number) {
+    const version = session.versions[index];
+    session.current = index;
+    cardImage(card)!.src = version.imageUrl;
+    const download = card.querySelector<HTMLAnchorElement>(':scope > .card-actions a[download]');
+    if (download) {
+        download.href = version.imageUrl;
+        download.download = version.filename;
+    }
+    card.dataset.filename = version.filename;
+    const panel = card.querySelector<HTMLElement>(':scope > .refine-panel');
+    if (panel) renderVersions(panel, session);
+}
+
+function toggleRefinePanel(card: HTMLElement) {
+    const existing = card.querySelector(':scope > .refine-panel');
+    if (existing) {
+        existing.remove();
+        return;
+    }
+    const panel = document.createElement('div');
+    panel.className = 'refine-panel';
+    panel.innerHTML = `
+        <div class="refine-versions"></div>
+        <p class="mode-info refine-versions-hint hidden">Click a version to go back to it. New edits start from the version shown.</p>
+        <textarea class="refine-instruction" rows="2" placeholder="Describe one small change, e.g. make the smile softer"></textarea>
+        <div class="refine-controls">
+            <button class="card-button refine-apply-button">Apply Edit</button>
+        </div>
+        <div class="refine-status"></div>`;
+    card.querySelector(':scope > .card-actions')!.after(panel);
+    renderVersions(panel, getSession(card));
+    (panel.querySelector('.refine-instruction') as HTMLTextAreaElement).focus();
+}
+
+/**
+ * Adds an edit of the card's current image as its newest version and shows
+ * it. Used by Refine, the area editor and brand overlays, so all of them
+ * share one history. An edit is either a model instruction or an overlay.
+ */
+export function addCardVersion(card: HTMLElement, result: { imageUrl: string; filename: string; model?: string }, edit: { instruction?: string; overlay?: string }) {
+    const session = getSession(card);
+    const base = session.versions[session.current];
+    const info = session.info;
+    addGeneratedAsset({ url: result.imageUrl, filename: result.filename, info: {
+        mode: info?.mode || state.activeMode, label: `${info?.label || 'image'}-v${session.versions.length + 1}`, prompt: info?.prompt,
+        instruction: edit.instruction, overlay: edit.overlay, model: result.model, aspectRatio: info?.aspectRatio, inputs: info?.inputs,
+        sources: [base.filename], group: info?.group, createdAt: Date.now(),
+    } });
+    session.versions.push({ imageUrl: result.imageUrl, filename: result.filename, instruction: edit.instruction || null, overlay: edit.overlay, parent: session.current });
+    showVersion(card, session, session.versions.length - 1);
+}
+
+async function applyRefinement(card: HTMLElement, panel: HTMLElement) {
+    const textarea = panel.querySelector('.refine-instruction') as HTMLTextAreaElement;
+    const applyButton = panel.querySelector('.refine-apply-button') as HTMLButtonElement;
+    const statusEl = panel.querySelector('.refine-status') as HTMLElement;
+    const instruction = textarea.value.trim();
+    if (!instruction) {
+        statusEl.innerHTML = `<p class="mode-info">Type what should change first.</p>`;
+        return;
+    }
+
+    const session = getSession(card);
+    const base = session.versions[session.current];
+    const earlier = instructionChain(session, session.current);
+    if (!confirmWithinBudget([{ model: api.IMAGE_EDIT_MODEL, images: 1 }])) return;
+
+    textarea.disabled = true;
+    applyButton.disabled = true;
+    statusEl.innerHTML = `<p class="status loading">Refining...</p>`;
+    card.classList.add('loading');
+    try {
+        const blob = await (await fetch(base.imageUrl)).blob();
+        const image = { mimeType: blob.type || 'image/png', data: await state.fileToBase64(blob) };
+        const result = await scheduleForCard(card, {
+            label: 'Refine image', model: api.IMAGE_EDIT_MODEL, priority: 'high',
+            run: (attempt, signal) => api.refineImage(image, instruction, earlier, signal),
+        });
+        // The model is asked to keep the framing, but its output size is not guaranteed.
+        if (session.info?.aspectRatio) result.imageUrl = await normalizeImage(result.imageUrl, session.info.aspectRatio);
+        addCardVersion(card, result, { instruction });
+        textarea.value = '';
+        statusEl.innerHTML = '';
+    } catch (error: any) {
+        statusEl.innerHTML = errorMessageHtml(error);
+    } finally {
+        // A failed or cancelled edit leaves the card's current version in place.
+        card.classList.remove('loading', 'cancelled');
+        textarea.disabled = false;
+        applyButton.disabled = false;
+    }
+}
+
+/**
+ * Adds Refine to every image result card and handles the refine panels.
+ */
+export function initializeRefine(resultsContainer: HTMLElement) {
+    registerCardAction({
+        className: 'refine-button', label: 'Refine',
+        appliesTo: card => !!cardImage(card),
+        onClick: toggleRefinePanel,
+    });
+
+    resultsContainer.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        const card = target.closest<HTMLElement>('.result-item');
+        if (!card) return;
+        const panel = target.closest<HTMLElement>('.refine-panel');
+        if (!panel || card.classList.contains('loading')) return;
+        const versionButton = target.closest<HTMLElement>('.refine-version');
+        if (versionButton) {
+            showVersion(card, getSession(card), parseInt(versionButton.dataset.versionIndex!, 10));
+        } else if (target.closest('.refine-apply-button')) {
+            applyRefinement(card, panel);
+        }
+    });
+}
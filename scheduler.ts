@@ -0,0 +1,314 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file contains the app-wide job scheduler. Every generation request,
+// from any mode or regenerate button, is queued here and started only when
+// its model has room under a requests-per-minute budget and a concurrency
+// cap. Failed jobs are retried according to the policy for their error
+// kind, and rate-limit errors also hold their model back for a while.
+// The queue can be paused, reordered and cancelled, and cancelling a
+// running job aborts its request.
+
+import { classifyError, errorTitle, JobCancelledError, RETRY_POLICIES } from './errors';
+import { IMAGE_EDIT_MODEL, IMAGE_MODEL, SPEECH_MODEL, TEXT_MODEL, VIDEO_MODEL } from './models';
+import { bindUsageContext, currentUsageContext, UsageContext } from './usage';
+
+export type JobPriority = 'high' | 'normal' | 'low';
+export type JobStatus = 'queued' | 'paused' | 'running' | 'done' | 'failed' | 'cancelled';
+
+/** A job as the queue panel sees it. */
+export interface Job {
+    id: number;
+    label: string;
+    model: string;
+    priority: JobPriority;
+    status: JobStatus;
+    attempts: number;
+    /** Why the job is waiting or why it failed. */
+    note?: string;
+}
+
+export interface JobSpec<T> {
+    label: string;
+    model: string;
+    /**
+     * Makes the request. `attempt` starts at 1 and counts every try, including
+     * retries. `signal` aborts when the job is cancelled and should be passed on to the API.
+     */
+    run: (attempt: number, signal: AbortSignal) => Promise<T>;
+    priority?: JobPriority;
+    /**
+     * How many times to retry errors whose kind has no retry policy of its
+     * own, such as unrecognized errors. Defaults to none.
+     */
+    retries?: number;
+    /**
+     * Whether a failed run may be started over. Defaults to true. Video jobs
+     * turn it off, since starting over would pay for a second render; they
+     * retry their own polls against the render that is already running.
+     */
+    repeatable?: boolean;
+    /** Cancels the job when it aborts, such as from a result card's Cancel button. */
+    signal?: AbortSignal;
+}
+
+interface QueuedJob extends Job {
+    spec: JobSpec<any>;
+    failures: number;
+    notBefore: number; // A retried job waits until this time.
+    controller?: AbortController; // Set while the job is running.
+    usage: UsageContext; // The mode and project the job was queued for.
+    resolve: (value: any) => void;
+    reject: (error: any) => void;
+}
+
+export interface ModelBudget {
+    requestsPerMinute: number;
+    concurrency: number;
+}
+
+export const MODEL_BUDGETS: Record<string, ModelBudget> = {
+    [TEXT_MODEL]: { requestsPerMinute: 15, concurrency: 4 },
+    [IMAGE_EDIT_MODEL]: { requestsPerMinute: 10, concurrency: 3 },
+    [IMAGE_MODEL]: { requestsPerMinute: 10, concurrency: 3 },
+    [VIDEO_MODEL]: { requestsPerMinute: 5, concurrency: 2 },
+    [SPEECH_MODEL]: { requestsPerMinute: 10, concurrency: 3 },
+};
+const DEFAULT_BUDGET: ModelBudget = { requestsPerMinute: 10, concurrency: 2 };
+
+const PRIORITY_RANK: Record<JobPriority, number> = { high: 0, normal: 1, low: 2 };
+const MINUTE_MS = 60000;
+const BACKOFF_MAX_MS = 5 * MINUTE_MS;
+const MAX_FINISHED_JOBS = 100;
+
+const jobs: QueuedJob[] = [];
+const startTimes = new Map<string, number[]>();
+const backoffs = new Map<string, { until: number; delay: number }>();
+const listeners = new Set<() => void>();
+let nextJobId = 1;
+let queuePaused = false;
+let wakeTimer: ReturnType<typeof setTimeout> | undefined;
+
+// --- QUEUE STATE ---
+
+export function onQueueChange(listener: () => void) {
+    listeners.add(listener);
+}
+
+function notify() {
+    listeners.forEach(listener => listener());
+}
+
+export function getJobs(): Job[] {
+    return jobs.map(({ id, label, model, priority, status, attempts, note }) => ({ id, label, model, priority, status, attempts, note }));
+}
+
+export function isQueuePaused() {
+    return queuePaused;
+}
+
+function budgetFor(model: string) {
+    return MODEL_BUDGETS[model] || DEFAULT_BUDGET;
+}
+
+/** Milliseconds until the model can take another request, or Infinity when it waits on a running job. */
+function waitTime(model: string, now: number): number {
+    const budget = budgetFor(model);
+    if (jobs.filter(job => job.model === model && job.status === 'running').length >= budget.concurrency) return Infinity;
+    const backoff = backoffs.get(model);
+    if (backoff && backoff.until > now) return backoff.until - now;
+    const recent = (startTimes.get(model) || []).filter(time => now - time < MINUTE_MS);
+    startTimes.set(model, recent);
+    if (recent.length >= budget.requestsPerMinute) return recent[0] + MINUTE_MS - now;
+    return 0;
+}
+
+/**
+ * Starts every queued job whose model has room, highest priority first and
+ * then in queue order, and sets a timer for the next one that is waiting.
+ */
+function pump() {
+    clearTimeout(wakeTimer);
+    wakeTimer = undefined;
+    if (queuePaused) return;
+
+    const now = Date.now();
+    let nextWake = Infinity;
+    const queued = jobs
+        .filter(job => job.status === 'queued')
+        .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]);
+    for (const job of queued) {
+        const wait = Math.max(job.notBefore - now, waitTime(job.model, now));
+        if (wait === 0) {
+            start(job);
+        } else {
+            nextWake = Math.min(nextWake, wait);
+        }
+    }
+    if (nextWake !== Infinity) wakeTimer = setTimeout(pump, nextWake);
+}
+
+function start(job: QueuedJob) {
+    job.status = 'running';
+    job.attempts++;
+    job.note = undefined;
+    startTimes.get(job.model)!.push(Date.now());
+    notify();
+
+    const controller = new AbortController();
+    job.controller = controller;
+    bindUsageContext(controller.signal, job.usage);
+    job.spec.run(job.attempts, controller.signal).then(value => {
+        // A cancelled job has already been rejected; whatever its request returns is dropped.
+        if (controller.signal.aborted) return;
+        backoffs.delete(job.model);
+        job.status = 'done';
+        job.resolve(value);
+    }, error => {
+        if (controller.signal.aborted) return;
+        const failure = classifyError(error);
+        const policy = RETRY_POLICIES[failure.kind];
+        if (job.spec.repeatable !== false && job.failures < (policy.retries ?? job.spec.retries ?? 0)) {
+            let delay = failure.retryAfterMs ?? policy.delayMs * 2 ** job.failures;
+            if (policy.holdsModel) {
+                // Hold the whole model back, since every request to it would hit the same limit.
+                delay = failure.retryAfterMs ?? Math.min((backoffs.get(job.model)?.delay || policy.delayMs / 2) * 2, BACKOFF_MAX_MS);
+                backoffs.set(job.model, { until: Date.now() + delay, delay });
+            }
+            job.failures++;
+            job.notBefore = Date.now() + delay;
+            job.status = 'queued';
+            job.note = `${failure.kind === 'unknown' ? 'Failed' : errorTitle(failure)}, retrying in ${Math.round(delay / 1000)}s`;
+            return;
+        }
+        job.status = 'failed';
+        job.note = errorTitle(failure);
+        job.reject(failure);
+    }).finally(() => {
+        job.controller = undefined;
+        pruneFinished();
+        notify();
+        pump();
+    });
+}
+
+function pruneFinished() {
+    const finished = jobs.filter(job => job.status === 'done' || job.status === 'failed' || job.status === 'cancelled');
+    finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)).forEach(job => jobs.splice(jobs.indexOf(job), 1));
+}
+
+// --- PUBLIC API ---
+
+/**
+ * Queues one request and resolves with its result once it has run.
+ * Rejects with a JobCancelledError if it is cancelled, whether it was still
+ * waiting or already running.
+ */
+export function schedule<T>(spec: JobSpec<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        if (spec.signal?.aborted) {
+            reject(new JobCancelledError(spec.label));
+            return;
+        }
+        const id = nextJobId++;
+        const onAbort = () => cancelJob(id);
+        spec.signal?.addEventListener('abort', onAbort, { once: true });
+        // A long-lived signal would otherwise keep every finished job's listener alive.
+        const settle = () => spec.signal?.removeEventListener('abort', onAbort);
+        jobs.push({
+            id,
+            label: spec.label,
+            model: spec.model,
+            priority: spec.priority || 'normal',
+            status: 'queued',
+            attempts: 0,
+            spec,
+            failures: 0,
+            notBefore: 0,
+            usage: currentUsageContext(),
+            resolve: value => { settle(); resolve(value); },
+            reject: error => { settle(); reject(error); },
+        });
+        notify();
+        pump();
+    });
+}
+
+export function setQueuePaused(paused: boolean) {
+    queuePaused = paused;
+    notify();
+    pump();
+}
+
+export function pauseJob(id: number) {
+    const job = jobs.find(j => j.id === id);
+    if (job?.status !== 'queued') return;
+    job.status = 'paused';
+    notify();
+}
+
+export function resumeJob(id: number) {
+    const job = jobs.find(j => j.id === id);
+    if (job?.status !== 'paused') return;
+    job.status = 'queued';
+    notify();
+    pump();
+}
+
+/**
+ * Cancels a waiting or running job. A running job's request is aborted and
+ * its model slot is freed straight away.
+ */
+export function cancelJob(id: number) {
+    const job = jobs.find(j => j.id === id);
+    if (job?.status !== 'queued' && job?.status !== 'paused' && job?.status !== 'running') return;
+    const wasRunning = job.status === 'running';
+    job.status = 'cancelled';
+    job.note = undefined;
+    job.controller?.abort();
+    job.reject(new JobCancelledError(job.label));
+    pruneFinished();
+    notify();
+    if (wasRunning) pump();
+}
+
+export function cancelAllPending() {
+    jobs.filter(job => job.status === 'queued' || job.status === 'paused').forEach(job => cancelJob(job.id));
+}
+
+/** Cancels every waiting and running job. */
+export function cancelAllJobs() {
+    jobs.filter(job => job.status === 'queued' || job.status === 'paused' || job.status === 'running').forEach(job => cancelJob(job.id));
+}
+
+/** Moves a waiting job past the next waiting job above (-1) or below (+1) it. */
+export function moveJob(id: number, direction: -1 | 1) {
+    const pending = jobs.filter(job => job.status === 'queued' || job.status === 'paused');
+    const index = pending.findIndex(job => job.id === id);
+    const other = pending[index + direction];
+    if (index === -1 || !other) return;
+    const a = jobs.indexOf(pending[index]);
+    const b = jobs.indexOf(other);
+    [jobs[a], jobs[b]] = [jobs[b], jobs[a]];
+    notify();
+    pump();
+}
+
+export function setJobPriority(id: number, priority: JobPriority) {
+    const job = jobs.find(j => j.id === id);
+    if (!job) return;
+    job.priority = priority;
+    notify();
+    pump();
+}
+
+export function clearFinishedJobs() {
+    for (let i = jobs.length - 1; i >= 0; i--) {
+        if (jobs[i].status === 'done' || jobs[i].status === 'failed' || jobs[i].status === 'cancelled') jobs.splice(i, 1);
+    }
+    notify();
+}
@@ -56,9 +56,39 @@ export const VIDEO_STORYBOARD_PROMPTS = [
 ];
 
 // Global state
-export let activeMode: 'image-studio' | 'image-storyboard' | 'video-storyboard' = 'image-studio';
-export const generatedAssetUrls: {url: string; filename: string}[] = [];
+export type AppMode = 'image-studio' | 'image-storyboard' | 'video-storyboard' | 'product-studio' | 'voice-over';
+export let activeMode: AppMode = 'image-studio';
+export const MODE_LABELS: Record<AppMode, string> = {
+    'image-studio': 'Image Studio',
+    'image-storyboard': 'Image Storyboard',
+    'video-storyboard': 'Video Storyboard',
+    'product-studio': 'Product Studio',
+    'voice-over': 'Voice Over',
+};
+/** How an output was made. Download All writes this into the ZIP's manifest.json. */
+export interface AssetInfo {
+    mode: AppMode;
+    label: string; // Short name such as "scene-03", used for the file name inside the ZIP.
+    prompt?: string;
+    model?: string;
+    aspectRatio?: string;
+    inputs?: { role: string; base64: string; mimeType?: string }[];
+    sources?: string[]; // File names of the outputs and uploads this one was built from.
+    direction?: string; // Delivery instruction given to the TTS model, for voice-overs.
+    instruction?: string; // Follow-up edit applied with Refine to the output named in `sources`.
+    overlay?: string; // Name of the brand overlay template composited onto the output named in `sources`.
+    group?: string; // Subfolder inside the mode's folder, e.g. the account a mass-mode row belongs to.
+    createdAt: number;
+}
+export interface GeneratedAsset {
+    url: string;
+    filename: string;
+    info?: AssetInfo;
+}
+export const generatedAssetUrls: GeneratedAsset[] = [];
 export let currentUser: string | null = null;
+/** The open project, so generation costs can be attributed to it. */
+export let activeProject: { id: string; name: string } | null = null;
 export let hasApiKey = true; // Assume API key is always available from the environment.
 
 export let productImageBase64 = '';
@@ -69,19 +99,37 @@ export let faceImageBase64 = '';
 export let imageStoryboardScenes: { id: number; prompt: string; }[] = [];
 export let nextImageSceneId = 0;
 
+// Batch Matrix State: every ticked product × model pair runs the whole image storyboard.
+export interface BatchImage { id: number; name: string; base64: string; }
+export let batchMatrixEnabled = false;
+export let batchProducts: BatchImage[] = [];
+export let batchModels: BatchImage[] = [];
+export let batchExcludedPairs: string[] = []; // "productId:modelId" keys of unticked pairs
+export let nextBatchImageId = 0;
+
 // Video Storyboard State
-export let storyboardScenes: { id: number; file: File | null; base64: string | null; mimeType: string | null; prompt: string; }[] = [];
+export let storyboardScenes: { id: number; file: File | null; base64: string | null; mimeType: string | null; prompt: string; videoUrl: string | null; }[] = [];
 export let nextSceneId = 0;
 
 // FIX: Add state for Product Studio and Voice Over features
 export let productStudioBase64: string | null = null;
-export let voiceOverInputMode: 'single' | 'mass' = 'single';
+export type VoiceOverInputMode = 'single' | 'mass' | 'dialogue';
+export let voiceOverInputMode: VoiceOverInputMode = 'single';
 export let voiceOverScript = '';
 export let voiceOverSelectedActor = 'Zephyr'; // Default actor
+export let voiceOverSpeakerVoices: Record<string, string> = {}; // Dialogue speaker name -> actor
+export interface VoiceOverStyle { tone: string; pace: string; accent: string; notes: string; }
+export let voiceOverStyle: VoiceOverStyle = { tone: 'neutral', pace: 'normal', accent: 'auto', notes: '' };
+/** One row of a mass-mode CSV. Empty optional cells use the panel's settings. */
+export interface VoiceOverCsvRow extends Partial<VoiceOverStyle> { script: string; actor?: string; filename?: string; group?: string; }
+export let voiceOverCsv: { fileName: string; rows: VoiceOverCsvRow[] } | null = null;
+export let voiceOverExportFormat: 'wav' | 'mp3' | 'opus' = 'wav';
+export let voiceOverExportSampleRate = 24000;
 
 // --- State Modifiers ---
 export function setActiveMode(mode: typeof activeMode) { activeMode = mode; }
 export function setCurrentUser(name: string) { currentUser = name; }
+export function setActiveProject(project: typeof activeProject) { activeProject = project; }
 export function setProductImageBase64(base64: string) { productImageBase64 = base64; }
 export function setModelImageBase64(base64: string) { modelImageBase64 = base64; }
 export function setFaceImageBase64(base64: string) { faceImageBase64 = base64; }
@@ -90,7 +138,13 @@ export function removeImageStoryboardScene(sceneId: number) { imageStoryboardSce
 export function updateImageStoryboardScenePrompt(sceneId: number, prompt: string) { const scene = imageStoryboardScenes.find(s => s.id === sceneId); if (scene) scene.prompt = prompt; }
 export function getNextImageSceneId() { return nextImageSceneId++; }
 export function resetImageStoryboard() { imageStoryboardScenes = []; nextImageSceneId = 0; }
-export function addStoryboardScene(scene: { id: number; file: File | null; base64: string | null; mimeType: string | null; prompt: string; }) { storyboardScenes.push(scene); }
+export function setBatchMatrixEnabled(enabled: boolean) { batchMatrixEnabled = enabled; }
+export function addBatchImage(kind: 'product' | 'model', image: BatchImage) { (kind === 'product' ? batchProducts : batchModels).push(image); }
+export function removeBatchImage(kind: 'product' | 'model', id: number) { if (kind === 'product') batchProducts = batchProducts.filter(i => i.id !== id); else batchModels = batchModels.filter(i => i.id !== id); }
+export function setBatchExcludedPairs(keys: string[]) { batchExcludedPairs = keys; }
+export function getNextBatchImageId() { return nextBatchImageId++; }
+export function resetBatchMatrix() { batchMatrixEnabled = false; batchProducts = []; batchModels = []; batchExcludedPairs = []; nextBatchImageId = 0; }
+export function addStoryboardScene(scene: typeof storyboardScenes[0]) { storyboardScenes.push(scene); }
 export function removeStoryboardScene(sceneId: number) { storyboardScenes = storyboardScenes.filter(s => s.id !== sceneId); }
 export function updateStoryboardScene(sceneId: number, data: Partial<typeof storyboardScenes[0]>) { const scene = storyboardScenes.find(s => s.id === sceneId); if (scene) Object.assign(scene, data); }
 export function getNextSceneId() { return nextSceneId++; }
@@ -98,12 +152,17 @@ export function resetStoryboard() { storyboardScenes = []; nextSceneId = 0; }
 
 // FIX: Add state modifiers for Product Studio and Voice Over features
 export function setProductStudioBase64(base64: string | null) { productStudioBase64 = base64; }
-export function setVoiceOverInputMode(mode: 'single' | 'mass') { voiceOverInputMode = mode; }
+export function setVoiceOverInputMode(mode: VoiceOverInputMode) { voiceOverInputMode = mode; }
 export function setVoiceOverScript(script: string) { voiceOverScript = script; }
 export function setVoiceOverSelectedActor(actor: string) { voiceOverSelectedActor = actor; }
+export function setVoiceOverSpeakerVoices(voices: Record<string, string>) { voiceOverSpeakerVoices = voices; }
+export function setVoiceOverStyle(style: VoiceOverStyle) { voiceOverStyle = style; }
+export function setVoiceOverCsv(csv: typeof voiceOverCsv) { voiceOverCsv = csv; }
+export function setVoiceOverExportFormat(format: 'wav' | 'mp3' | 'opus') { voiceOverExportFormat = format; }
+export function setVoiceOverExportSampleRate(sampleRate: number) { voiceOverExportSampleRate = sampleRate; }
 
 // Helper to convert file to base64
-export function fileToBase64(file: File): Promise<string> {
+export function fileToBase64(file: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = () => {
@@ -116,4 +175,65 @@ export function fileToBase64(file: File): Promise<string> {
     reader.onerror = (error) => reject(error);
     reader.readAsDataURL(file);
   });
-}
\ No newline at end of file
+}
+
+// Helpers to turn a base64 string back into binary data
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function base64ToBlob(base64: string, mimeType: string): Blob {
+  return new Blob([base64ToBytes(base64)], { type: mimeType });
+}
+
+/** Loads an image from a URL or data URL, ready to draw on a canvas. */
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The image could not be loaded.'));
+    image.src = src;
+  });
+}
+
+/** Saves a blob to the user's downloads under the given file name. */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/** Makes a unique id for a stored record, e.g. createId('custom') gives "custom-1718000000000-k3j9xq". */
+export function createId(prefix: string): string {
+    return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Builds a file-name-safe label for an output, e.g. assetLabel('Scene', 3) gives "scene-03".
+ */
+export function assetLabel(name: string, index?: number): string {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'asset';
+    return index === undefined ? slug : `${slug}-${String(index).padStart(2, '0')}`;
+}
+
+/** The CSS class that gives a result's preview container its aspect ratio, e.g. "aspect-9-16". */
+export function aspectClass(aspectRatio: string): string {
+    return `aspect-${aspectRatio.replace(':', '-')}`;
+}
+
+/**
+ * Returns the base64 of the first input an output was made from with the given role, or ''.
+ */
+export function assetInput(info: AssetInfo, role: string): string {
+    return info.inputs?.find(input => input.role === role)?.base64 || '';
+}
@@ -0,0 +1,505 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file contains the style variations of Product Studio. Each variation
+// is a named set of prompts with a [produk] placeholder for the product. The
+// built-in styles ship with the app; users can add their own, which are kept
+// in localStorage. The panel lists every variation with its prompts as
+// checkboxes, so one run can mix whole styles and single prompts.
+
+import * as state from './state';
+import { closeModal, openModal } from './ui';
+import { createEditorRow } from './prompt-packs';
+
+export interface StudioVariation {
+    id: string;
+    name: string;
+    prompts: string[];
+    builtIn?: boolean;
+}
+
+/** One ticked prompt, with the variation it belongs to. */
+export interface StudioPrompt {
+    variation: StudioVariation;
+    index: number;
+    prompt: string;
+}
+
+const STORAGE_KEY = 'roket-video-maker.studio-variations';
+const IMAGES_PER_PROMPT = [1, 2, 3, 4];
+const PROMPT_PLACEHOLDER = 'e.g. [produk] di atas meja kayu dengan cahaya pagi';
+
+const PRODUCT_STUDIO_VARIATIONS = [
+    { name: 'Studio White Minimalist', prompts: [
+        'Foto [produk] di latar belakang putih polos dengan pencahayaan softbox dari kiri-kanan, shadow lembut.',
+        '[produk] difoto flat lay di atas background putih matte, cahaya natural studio.',
+        '[produk] close-up dengan lighting tiga titik (key light, fill light, rim light), background putih seamless.',
+        '[produk] ditempatkan di atas meja kaca reflektif, efek bayangan lembut ke bawah.',
+        'Foto katalog [produk], high-resolution, tanpa properti tambahan, clean studio white.',
+        '[produk] floating di udara dengan background putih terang, efek shadow di bawahnya.',
+    ]},
+    { name: 'Luxury Black Studio', prompts: [
+        '[produk] di atas background hitam glossy dengan pencahayaan spotlight dramatis.',
+        'Foto close-up [produk] dengan cahaya dari atas, menghasilkan efek kontras tinggi.',
+        '[produk] berdiri di atas alas marmer hitam, background gelap dengan cahaya tipis di belakang.',
+        'Foto [produk] dengan efek cahaya melingkar (halo light) dari belakang.',
+        '[produk] difoto dengan refleksi kaca hitam di bawahnya, efek glossy elegan.',
+        'Studio foto gaya luxury brand, background hitam pekat, produk jadi fokus utama.',
+    ]},
+    { name: 'Pastel Aesthetic', prompts: [
+        'Foto [produk] di studio dengan background pastel pink lembut.',
+        '[produk] diletakkan di podium putih dengan latar pastel biru.',
+        '[produk] difoto flat lay di atas latar pastel hijau dengan pencahayaan lembut.',
+        '[produk] floating di tengah latar pastel gradient (pink ke ungu).',
+        '[produk] dengan bayangan soft pastel di background, gaya aesthetic feminin.',
+        'Foto [produk] dengan latar pastel oranye lembut, gaya editorial modern.',
+    ]},
+    { name: 'Natural Organic', prompts: [
+        '[produk] difoto dengan properti daun hijau tropis di sekitar, lighting studio lembut.',
+        'Flat lay [produk] di atas alas kayu alami, pencahayaan natural.',
+        '[produk] berdiri di podium batu putih dengan properti tanaman hijau kecil.',
+        'Foto studio [produk] dengan latar dedaunan out of focus.',
+        '[produk] difoto dengan cahaya matahari tiruan, efek natural morning light.',
+        '[produk] diletakkan di atas kain linen krem, cahaya lembut dari samping.',
+    ]},
+    { name: 'Water Splash Effect', prompts: [
+        '[produk] difoto dengan efek air splash membeku di belakang, studio style.',
+        'Foto close-up [produk] dengan tetesan air di permukaan, pencahayaan dramatis.',
+        '[produk] berdiri di atas permukaan air reflektif, background biru gelap.',
+        'Foto [produk] dengan efek kabut tipis dan uap air, gaya fresh cooling.',
+        '[produk] floating dengan cipratan air mengelilingi, frozen motion capture.',
+        '[produk] difoto dalam studio kaca transparan dengan butiran air menempel.',
+    ]},
+    { name: 'Neon Light Futuristic', prompts: [
+        '[produk] difoto dengan cahaya neon biru dan ungu, background gelap futuristik.',
+        '[produk] diletakkan di podium akrilik transparan, lampu neon pink di belakang.',
+        '[produk] close-up dengan refleksi neon hijau di sisi kanan.',
+        '[produk] di dalam studio dengan grid lampu neon biru.',
+        'Foto [produk] dengan efek cahaya cyberpunk, neon merah dan biru.',
+        '[produk] floating di tengah cahaya neon lingkaran holografis.',
+    ]},
+    { name: 'Rustic Wood Warmth', prompts: [
+        '[produk] diletakkan di meja kayu rustic dengan cahaya hangat.',
+        'Flat lay [produk] di atas papan kayu tua, gaya vintage.',
+        '[produk] dengan properti lilin menyala di background, lighting hangat.',
+        'Foto close-up [produk] dengan tekstur kayu di belakang.',
+        '[produk] difoto dengan cahaya kuning oranye seperti sunset.',
+        '[produk] diletakkan di rak kayu klasik, suasana natural cozy.',
+    ]},
+    { name: 'Luxury Gold Premium', prompts: [
+        '[produk] diletakkan di podium emas berkilau, background hitam elegan.',
+        '[produk] dengan cahaya spotlight emas, efek glamor.',
+        'Foto close-up [produk] dengan refleksi emas di permukaan.',
+        '[produk] difoto dengan kain satin emas di sekelilingnya.',
+        '[produk] floating di tengah partikel emas beterbangan.',
+        'Studio foto [produk] dengan lighting warm gold high-end.',
+    ]},
+    { name: 'Gradient Modern', prompts: [
+        '[produk] difoto di depan background gradient biru ke ungu.',
+        'Flat lay [produk] dengan latar gradient pastel hijau ke kuning.',
+        '[produk] floating dengan efek cahaya gradient oranye ke pink.',
+        'Foto [produk] dengan lighting soft gradient keabu-abuan.',
+        '[produk] diletakkan di podium kaca, background gradient biru muda.',
+        '[produk] dengan latar gradient futuristik, gaya modern digital.',
+    ]},
+    { name: 'Desert Sand Vibe', prompts: [
+        '[produk] diletakkan di atas pasir halus, background krem alami.',
+        'Foto close-up [produk] dengan tekstur pasir di sekeliling.',
+        '[produk] berdiri di podium batu pasir, lighting hangat seperti matahari gurun.',
+        'Flat lay [produk] dengan properti kerikil kecil.',
+        'Foto [produk] dengan cahaya golden hour, efek desert aesthetic.',
+        '[produk] floating di atas pasir berkilau, bayangan lembut.',
+    ]},
+    { name: 'Crystal Glass Shine', prompts: [
+        '[produk] dikelilingi pecahan kaca kristal, lighting dramatis.',
+        'Foto close-up [produk] di atas permukaan kaca transparan.',
+        '[produk] dengan background prisma kaca, menghasilkan cahaya spektrum.',
+        '[produk] difoto dengan refleksi kaca ganda, efek artistik.',
+        'Foto studio [produk] dengan properti kristal transparan.',
+        '[produk] floating di tengah pecahan kaca artistik.',
+    ]},
+    { name: 'Smoke & Mystery', prompts: [
+        '[produk] dikelilingi asap tipis putih, lighting dramatis.',
+        '[produk] dengan asap warna biru ungu, gaya futuristik.',
+        'Foto close-up [produk] dengan asap swirl di background.',
+        '[produk] di podium hitam dengan efek kabut tebal di bawah.',
+        'Studio foto [produk] dengan lighting kontras dan asap merah.',
+        '[produk] floating di tengah kabut misterius.',
+    ]},
+    { name: 'Ice & Cool Fresh', prompts: [
+        '[produk] difoto dengan properti es batu di sekelilingnya.',
+        '[produk] berdiri di podium kaca beku dengan efek embun.',
+        'Foto close-up [produk] dengan tetesan air dingin di permukaan.',
+        '[produk] di studio dengan background biru es.',
+        '[produk] floating dengan serpihan es membeku di sekeliling.',
+        'Foto [produk] dengan cahaya putih kebiruan seperti freezer.',
+    ]},
+    { name: 'Botanical Garden', prompts: [
+        '[produk] difoto dengan properti bunga segar di sekeliling.',
+        '[produk] di podium marmer dengan background dedaunan hijau.',
+        'Flat lay [produk] dengan bunga mawar putih di atas linen.',
+        '[produk] floating dengan bunga-bunga kecil berterbangan.',
+        'Foto close-up [produk] dengan bunga lavender di background.',
+        '[produk] difoto dengan properti tanaman pot kecil.',
+    ]},
+    { name: 'Glass Dome Showcase', prompts: [
+        '[produk] di dalam dome kaca transparan, lighting lembut.',
+        'Foto close-up [produk] dengan refleksi dome kaca.',
+        '[produk] di podium putih, dome kaca penuh tetesan air.',
+        'Foto [produk] floating di dalam efek bubble kaca.',
+        '[produk] difoto dengan kaca akrilik bening artistik.',
+        'Studio foto [produk] dengan properti kaca melingkar.',
+    ]},
+    { name: 'Cyber Tech Style', prompts: [
+        '[produk] difoto dengan grid LED biru futuristik.',
+        'Foto close-up [produk] dengan efek hologram di belakang.',
+        '[produk] floating di tengah partikel digital biru.',
+        'Studio [produk] dengan latar kode matrix hijau.',
+        '[produk] di podium logam futuristik dengan lampu biru.',
+        '[produk] difoto dengan refleksi digital glitch effect.',
+    ]},
+    { name: 'Artistic Shadow Play', prompts: [
+        '[produk] difoto dengan shadow pattern dedaunan.',
+        '[produk] dengan bayangan garis cahaya jendela.',
+        'Foto close-up [produk] dengan shadow diagonal dramatis.',
+        '[produk] floating di background putih dengan shadow abstrak.',
+        'Foto [produk] dengan bayangan geometris artistik.',
+        'Studio foto [produk] dengan kombinasi shadow & light play.',
+    ]},
+    { name: 'Marble Elegance', prompts: [
+        '[produk] diletakkan di podium marmer putih.',
+        'Foto close-up [produk] dengan tekstur marmer abu-abu di belakang.',
+        '[produk] difoto dengan permukaan marmer glossy reflektif.',
+        '[produk] di podium marmer hitam dengan pencahayaan elegan.',
+        '[produk] floating di background tekstur marmer putih.',
+        'Foto studio [produk] dengan kombinasi marmer dan kaca.',
+    ]},
+    { name: 'High Fashion Editorial', prompts: [
+        '[produk] difoto dengan kain satin mewah di background.',
+        'Foto close-up [produk] dengan spotlight dramatis, gaya majalah.',
+        '[produk] di podium putih dengan kain hitam mengalir di bawahnya.',
+        '[produk] floating dengan kain sutra melayang di sekeliling.',
+        'Studio foto [produk] dengan setup fashion editorial high-end.',
+        '[produk] dengan lighting kontras dramatis ala runway.',
+    ]},
+    { name: 'Festive Celebration', prompts: [
+        '[produk] dikelilingi confetti emas melayang di studio.',
+        'Foto close-up [produk] dengan properti pita perayaan.',
+        '[produk] di podium putih dengan balon warna pastel di background.',
+        'Foto [produk] dengan efek kembang api mini di belakang.',
+        '[produk] floating di tengah confetti berwarna.',
+        'Studio foto [produk] dengan nuansa perayaan elegan.',
+    ]},
+];
+
+const BUILT_IN_VARIATIONS: StudioVariation[] = PRODUCT_STUDIO_VARIATIONS.map(variation => ({
+    id: `builtin-${state.assetLabel(variation.name)}`,
+    ...variation,
+    builtIn: true,
+}));
+
+// --- DOM ELEMENTS ---
+let selectionContainer: HTMLElement;
+let countSelector: HTMLElement;
+let summaryEl: HTMLElement;
+let globalStatusEl: HTMLElement;
+
+let customVariations: StudioVariation[] = [];
+let selectedKeys = new Set<string>();
+let imagesPerPrompt = 1;
+
+// --- STORAGE ---
+
+function loadCustomVariations(): StudioVariation[] {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? (JSON.parse(stored) as unknown[]).map(validateVariation) : [];
+    } catch (error) {
+        console.error('Could not load saved style variations:', error);
+        return [];
+    }
+}
+
+function saveCustomVariations() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(customVariations));
+}
+
+export function getStudioVariations(): StudioVariation[] {
+    return [...BUILT_IN_VARIATIONS, ...customVariations];
+}
+
+function findVariation(id: string): StudioVariation | undefined {
+    return getStudioVariations().find(variation => variation.id === id);
+}
+
+/**
+ * Checks a stored or edited variation and returns a clean copy.
+ * Throws a user-readable error when the name or prompts are missing.
+ */
+function validateVariation(value: unknown): StudioVariation {
+    const variation = value as Partial<StudioVariation> | null;
+    if (!variation || typeof variation.name !== 'string' || !variation.name.trim()) {
+        throw new Error('Every style variation needs a name.');
+    }
+    // Prompts are ticked by their text, so a repeated prompt is kept once.
+    const prompts = [...new Set((Array.isArray(variation.prompts) ? variation.prompts : [])
+        .filter((prompt): prompt is string => typeof prompt === 'string' && !!prompt.trim())
+        .map(prompt => prompt.trim()))];
+    if (prompts.length === 0) {
+        throw new Error(`Style variation "${variation.name}" needs at least one prompt.`);
+    }
+    return {
+        id: typeof variation.id === 'string' && !variation.id.startsWith('builtin-') ? variation.id : state.createId('custom'),
+        name: variation.name.trim(),
+        prompts,
+    };
+}
+
+// --- SELECTION ---
+
+/**
+ * Identifies a prompt by its text rather than its position, so adding,
+ * removing or reordering a style's prompts leaves the others ticked.
+ */
+function promptKey(variation: StudioVariation, prompt: string) {
+    return `${variation.id}:${prompt}`;
+}
+
+/** The first built-in style, which is what Product Studio used to run on its own. */
+function defaultSelection(): Set<string> {
+    const variation = BUILT_IN_VARIATIONS[0];
+    return new Set(variation.prompts.map(prompt => promptKey(variation, prompt)));
+}
+
+/** The ticked prompts in list order, whichever variations they come from. */
+export function getSelectedPrompts(): StudioPrompt[] {
+    return getStudioVariations().flatMap(variation => variation.prompts
+        .map((prompt, index) => ({ variation, index, prompt }))
+        .filter(entry => selectedKeys.has(promptKey(variation, entry.prompt))));
+}
+
+export function getImagesPerPrompt(): number {
+    return imagesPerPrompt;
+}
+
+export function captureVariationSelection() {
+    return { variationKeys: [...selectedKeys], imagesPerPrompt };
+}
+
+/**
+ * Puts a saved selection back. Projects saved before variations could be
+ * mixed only have the index of one built-in style; that style is ticked whole.
+ */
+export function restoreVariationSelection(snapshot: Record<string, any>) {
+    const legacyVariation = BUILT_IN_VARIATIONS[parseInt(snapshot.variationIndex, 10)];
+    if (Array.isArray(snapshot.variationKeys)) {
+        selectedKeys = new Set(snapshot.variationKeys);
+    } else if (legacyVariation) {
+        selectedKeys = new Set(legacyVariation.prompts.map(prompt => promptKey(legacyVariation, prompt)));
+    } else {
+        selectedKeys = defaultSelection();
+    }
+    imagesPerPrompt = IMAGES_PER_PROMPT.includes(snapshot.imagesPerPrompt) ? snapshot.imagesPerPrompt : 1;
+    renderVariations();
+    renderCountSelector();
+}
+
+export function resetVariationSelection() {
+    restoreVariationSelection({});
+}
+
+// --- UI ---
+
+/** Lists each variation with its prompts folded underneath, so single prompts can be ticked. */
+function renderVariations() {
+    const openIds = new Set(Array.from(selectionContainer.querySelectorAll<HTMLElement>('.studio-variation[open]')).map(el => el.dataset.variationId));
+    selectionContainer.innerHTML = '';
+    getStudioVariations().forEach((variation, v) => {
+        const group = document.createElement('details');
+        group.className = 'studio-variation';
+        group.dataset.variationId = variation.id;
+        group.open = openIds.has(variation.id);
+        group.innerHTML = `
+            <summary class="pose-item">
+                <input type="checkbox" class="studio-variation-check" aria-label="Use every prompt of this style">
+                <span class="studio-variation-name"></span>
+                <span class="studio-variation-count">${variation.prompts.length}</span>
+                <button type="button" class="enhance-prompt-btn" data-variation-action="edit">${variation.builtIn ? 'Copy' : 'Edit'}</button>
+            </summary>
+            <div class="studio-variation-prompts">
+                ${variation.prompts.map((prompt, i) => `
+                    <div class="pose-item">
+                        <input type="checkbox" id="studio-variation-${v}-${i}">
+                        <label for="studio-variation-${v}-${i}"></label>
+                    </div>`).join('')}
+            </div>`;
+        (group.querySelector('.studio-variation-name') as HTMLElement).textContent = variation.name;
+        group.querySelectorAll<HTMLElement>('.studio-variation-prompts .pose-item').forEach((item, i) => {
+            (item.querySelector('input') as HTMLInputElement).dataset.promptKey = promptKey(variation, variation.prompts[i]);
+            (item.querySelector('label') as HTMLElement).textContent = variation.prompts[i];
+        });
+        selectionContainer.appendChild(group);
+    });
+    syncChecks();
+}
+
+/** Updates the checkboxes and the summary from the selection without rebuilding the list. */
+function syncChecks() {
+    selectionContainer.querySelectorAll<HTMLElement>('.studio-variation').forEach(group => {
+        const promptChecks = Array.from(group.querySelectorAll<HTMLInputElement>('[data-prompt-key]'));
+        promptChecks.forEach(input => { input.checked = selectedKeys.has(input.dataset.promptKey!); });
+        const ticked = promptChecks.filter(input => input.checked).length;
+        const variationCheck = group.querySelector('.studio-variation-check') as HTMLInputElement;
+        variationCheck.checked = ticked === promptChecks.length;
+        variationCheck.indeterminate = ticked > 0 && ticked < promptChecks.length;
+    });
+
+    const selected = getSelectedPrompts();
+    const styles = new Set(selected.map(entry => entry.variation.id)).size;
+    summaryEl.textContent = selected.length === 0
+        ? 'Tick a style to use all of its prompts, or open it to pick single prompts.'
+        : `${selected.length} prompt${selected.length === 1 ? '' : 's'} from ${styles} style${styles === 1 ? '' : 's'}, ${selected.length * imagesPerPrompt} image${selected.length * imagesPerPrompt === 1 ? '' : 's'} in total.`;
+}
+
+function renderCountSelector() {
+    countSelector.querySelectorAll<HTMLElement>('.tab-button').forEach(button => {
+        button.classList.toggle('active', parseInt(button.dataset.count!, 10) === imagesPerPrompt);
+    });
+    syncChecks();
+}
+
+/**
+ * Opens the variation editor. Built-in variations are never modified; editing one saves a copy.
+ */
+function openVariationEditor(variation: StudioVariation | null) {
+    const isCopy = !!variation?.builtIn;
+    const body = document.createElement('div');
+    body.className = 'pack-editor';
+    body.innerHTML = `
+        <div class="form-group">
+            <label for="variation-editor-name">Style Name</label>
+            <input type="text" id="variation-editor-name" placeholder="e.g., Kitchen Morning Light">
+        </div>
+        <div class="form-group">
+            <label>Prompts</label>
+            <p class="mode-info">Write [produk] where the product should go. It is replaced with the product AI recognizes in your photo.</p>
+            <div id="variation-editor-prompts" class="pack-editor-list"></div>
+            <button type="button" id="variation-editor-add" class="btn-secondary" style="width: 100%;">Add Prompt</button>
+        </div>
+        <p id="variation-editor-error" class="status-error hidden"></p>
+        <div class="modal-footer">
+            ${variation && !isCopy ? '<button type="button" id="variation-editor-delete" class="btn-secondary">Delete</button>' : ''}
+            <button type="button" id="variation-editor-cancel" class="btn-secondary">Cancel</button>
+            <button type="button" id="variation-editor-save" class="btn-primary">Save Style</button>
+        </div>`;
+
+    const nameInput = body.querySelector('#variation-editor-name') as HTMLInputElement;
+    const promptList = body.querySelector('#variation-editor-prompts') as HTMLElement;
+    const errorEl = body.querySelector('#variation-editor-error') as HTMLElement;
+
+    nameInput.value = variation ? (isCopy ? `${variation.name} (Copy)` : variation.name) : '';
+    (variation?.prompts || ['']).forEach(prompt => createEditorRow(promptList, false, '', prompt, PROMPT_PLACEHOLDER));
+
+    body.addEventListener('click', (e: Event) => {
+        const target = e.target as HTMLElement;
+        if (target.closest('.remove-scene-button')) {
+            target.closest('.pack-editor-row')?.remove();
+        } else if (target.id === 'variation-editor-add') {
+            createEditorRow(promptList, false, '', '', PROMPT_PLACEHOLDER);
+        } else if (target.id === 'variation-editor-cancel') {
+            closeModal();
+        } else if (target.id === 'variation-editor-delete' && variation) {
+            if (!confirm(`Delete the style variation "${variation.name}"?`)) return;
+            customVariations = customVariations.filter(custom => custom.id !== variation.id);
+            saveCustomVariations();
+            selectedKeys = new Set([...selectedKeys].filter(key => !key.startsWith(`${variation.id}:`)));
+            renderVariations();
+            closeModal();
+        } else if (target.id === 'variation-editor-save') {
+            try {
+                const edited = validateVariation({
+                    id: variation && !isCopy ? variation.id : undefined,
+                    name: nameInput.value,
+                    prompts: Array.from(promptList.querySelectorAll<HTMLTextAreaElement>('.pack-editor-prompt')).map(textarea => textarea.value),
+                });
+                const index = customVariations.findIndex(custom => custom.id === edited.id);
+                if (index >= 0) customVariations[index] = edited;
+                else customVariations.push(edited);
+                saveCustomVariations();
+                // Kept prompts keep their ticks, removed ones drop out and new or reworded ones start out ticked.
+                const earlier = new Set(variation && !isCopy ? variation.prompts : []);
+                const keys = new Set(edited.prompts.map(prompt => promptKey(edited, prompt)));
+                selectedKeys = new Set([...selectedKeys].filter(key => !key.startsWith(`${edited.id}:`) || keys.has(key)));
+                edited.prompts.filter(prompt => !earlier.has(prompt)).forEach(prompt => selectedKeys.add(promptKey(edited, prompt)));
+                renderVariations();
+                globalStatusEl.textContent = `Saved the style "${edited.name}".`;
+                closeModal();
+            } catch (error: any) {
+                errorEl.textContent = error.message;
+                errorEl.classList.remove('hidden');
+            }
+        }
+    });
+
+    openModal(variation ? (isCopy ? 'Copy Style Variation' : 'Edit Style Variation') : 'New Style Variation', body);
+}
+
+// --- INITIALIZATION ---
+
+export function initializeStudioVariations() {
+    selectionContainer = document.querySelector('#product-studio-variation-selection')!;
+    countSelector = document.querySelector('#product-studio-count-selector')!;
+    summaryEl = document.querySelector('#product-studio-selection-summary')!;
+    globalStatusEl = document.querySelector('#global-status')!;
+
+    customVariations = loadCustomVariations();
+    countSelector.innerHTML = IMAGES_PER_PROMPT
+        .map(count => `<button class="tab-button" data-count="${count}">${count}</button>`)
+        .join('');
+    resetVariationSelection();
+
+    selectionContainer.addEventListener('change', (e: Event) => {
+        const input = e.target as HTMLInputElement;
+        if (input.dataset.promptKey) {
+            if (input.checked) selectedKeys.add(input.dataset.promptKey);
+            else selectedKeys.delete(input.dataset.promptKey);
+        } else if (input.classList.contains('studio-variation-check')) {
+            const variation = findVariation(input.closest<HTMLElement>('.studio-variation')!.dataset.variationId!);
+            variation?.prompts.forEach(prompt => {
+                if (input.checked) selectedKeys.add(promptKey(variation, prompt));
+                else selectedKeys.delete(promptKey(variation, prompt));
+            });
+        }
+        syncChecks();
+    });
+
+    selectionContainer.addEventListener('click', (e: Event) => {
+        const button = (e.target as HTMLElement).closest<HTMLElement>('[data-variation-action="edit"]');
+        if (!button) return;
+        const variation = findVariation(button.closest<HTMLElement>('.studio-variation')!.dataset.variationId!);
+        if (variation) openVariationEditor(variation);
+    });
+
+    countSelector.addEventListener('click', (e: Event) => {
+        const button = (e.target as HTMLElement).closest<HTMLElement>('[data-count]');
+        if (!button) return;
+        imagesPerPrompt = parseInt(button.dataset.count!, 10);
+        renderCountSelector();
+    });
+
+    document.querySelector('#product-studio-variation-actions')!.addEventListener('click', (e: Event) => {
+        switch ((e.target as HTMLElement).closest<HTMLElement>('[data-variation-action]')?.dataset.variationAction) {
+            case 'new':
+                openVariationEditor(null);
+                break;
+            case 'clear':
+                selectedKeys.clear();
+                syncChecks();
+                break;
+        }
+    });
+}
@@ -0,0 +1,230 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file turns a voice-over script and its audio into timed subtitles.
+// The script is split into sentences, the audio is scanned for pauses, and
+// each sentence boundary is snapped to the pause closest to where the text
+// says it should fall. Cues can be written as SRT or WebVTT, read back from
+// either format, and drawn onto video frames for burned-in captions.
+
+import { decodeAudioMono } from './audio-export';
+
+export interface SubtitleCue {
+    start: number; // Seconds
+    end: number;
+    text: string;
+    speaker?: string;
+}
+
+export interface SubtitleSentence {
+    text: string;
+    speaker?: string;
+}
+
+const ANALYSIS_SAMPLE_RATE = 16000;
+const WINDOW_SECONDS = 0.02;
+// Anything quieter than this fraction of the loudest window counts as silence.
+const SILENCE_THRESHOLD_RATIO = 0.05;
+const MIN_SILENCE_SECONDS = 0.2;
+// A pause further than this from a sentence's expected end is not taken as that sentence's end.
+const MAX_SNAP_SECONDS = 2;
+
+/**
+ * Splits text into sentences on terminal punctuation and line breaks.
+ */
+export function splitSentences(text: string): string[] {
+    return text
+        .split(/\n+|(?<=[.!?…])\s+/)
+        .map(sentence => sentence.trim())
+        .filter(sentence => sentence !== '');
+}
+
+/** Finds the stretches of audio that are louder than the silence threshold. */
+function detectSpeech(samples: Float32Array, sampleRate: number): { start: number; end: number }[] {
+    const windowSize = Math.max(1, Math.round(sampleRate * WINDOW_SECONDS));
+    const levels: number[] = [];
+    for (let offset = 0; offset < samples.length; offset += windowSize) {
+        let sum = 0;
+        const end = Math.min(samples.length, offset + windowSize);
+        for (let i = offset; i < end; i++) sum += samples[i] * samples[i];
+        levels.push(Math.sqrt(sum / (end - offset)));
+    }
+    const threshold = Math.max(...levels, 0) * SILENCE_THRESHOLD_RATIO;
+
+    const segments: { start: number; end: number }[] = [];
+    levels.forEach((level, i) => {
+        if (level <= threshold) return;
+        const start = i * WINDOW_SECONDS;
+        const last = segments[segments.length - 1];
+        // Short dips inside a word or between words are not pauses.
+        if (last && start - last.end < MIN_SILENCE_SECONDS) {
+            last.end = start + WINDOW_SECONDS;
+        } else {
+            segments.push({ start, end: start + WINDOW_SECONDS });
+        }
+    });
+    return segments;
+}
+
+/**
+ * Times each sentence against the audio. Sentences are first placed by their
+ * share of the script's characters, then each boundary moves to the nearest
+ * detected pause so cues start and end with the speech.
+ */
+export async function timeSubtitles(sentences: SubtitleSentence[], audio: Blob): Promise<SubtitleCue[]> {
+    if (sentences.length === 0) return [];
+    const samples = await decodeAudioMono(audio, ANALYSIS_SAMPLE_RATE);
+    const duration = samples.length / ANALYSIS_SAMPLE_RATE;
+    let speech = detectSpeech(samples, ANALYSIS_SAMPLE_RATE);
+    if (speech.length === 0) speech = [{ start: 0, end: duration }];
+
+    const speechStart = speech[0].start;
+    const speechEnd = Math.min(duration, speech[speech.length - 1].end);
+    const pauses = speech.slice(1).map((segment, i) => ({ start: speech[i].end, end: segment.start }));
+
+    const totalChars = sentences.reduce((sum, s) => sum + s.text.length, 0);
+    // Each boundary is where one cue ends and the next begins; at a pause those differ.
+    const boundaries: { end: number; start: number }[] = [];
+    let chars = 0;
+    let lastBoundary = speechStart;
+    let nextPause = 0;
+    for (let k = 0; k < sentences.length - 1; k++) {
+        chars += sentences[k].text.length;
+        const expected = speechStart + (speechEnd - speechStart) * chars / totalChars;
+        let best = -1;
+        for (let p = nextPause; p < pauses.length; p++) {
+            const middle = (pauses[p].start + pauses[p].end) / 2;
+            if (middle <= lastBoundary) continue;
+            if (Math.abs(middle - expected) > MAX_SNAP_SECONDS) {
+                if (middle > expected) break;
+                continue;
+            }
+            if (best === -1 || Math.abs(middle - expected) < Math.abs((pauses[best].start + pauses[best].end) / 2 - expected)) {
+                best = p;
+            }
+        }
+        if (best !== -1) {
+            boundaries.push({ end: pauses[best].start, start: pauses[best].end });
+            nextPause = best + 1;
+            lastBoundary = pauses[best].end;
+        } else {
+            const at = Math.max(expected, lastBoundary);
+            boundaries.push({ end: at, start: at });
+            lastBoundary = at;
+        }
+    }
+
+    return sentences.map((sentence, k) => ({
+        start: k === 0 ? speechStart : boundaries[k - 1].start,
+        end: k === sentences.length - 1 ? speechEnd : boundaries[k].end,
+        text: sentence.text,
+        speaker: sentence.speaker,
+    }));
+}
+
+// --- FORMATS ---
+
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+    const ms = Math.max(0, Math.round(seconds * 1000));
+    const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+    return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+export function toSrt(cues: SubtitleCue[]): string {
+    return cues.map((cue, i) =>
+        `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`
+    ).join('\n');
+}
+
+/** WebVTT reads cue text as markup, so these characters must be written as entities. */
+function escapeVtt(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function unescapeVtt(text: string): string {
+    return text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
+
+export function toVtt(cues: SubtitleCue[]): string {
+    const body = cues.map(cue =>
+        `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.speaker ? `<v ${escapeVtt(cue.speaker)}>` : ''}${escapeVtt(cue.text)}\n`
+    ).join('\n');
+    return `WEBVTT\n\n${body}`;
+}
+
+function parseTimestamp(value: string): number {
+    const parts = value.trim().replace(',', '.').split(':').map(Number);
+    return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Reads cues from an SRT or WebVTT file. Styling and voice tags are dropped,
+ * and WebVTT's escaped characters are turned back into text.
+ */
+export function parseSubtitles(text: string): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+    const isVtt = text.trimStart().startsWith('WEBVTT');
+    text.replace(/\r/g, '').split(/\n\s*\n/).forEach(block => {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex(line => line.includes('-->'));
+        if (timingIndex === -1) return;
+        const [start, end] = lines[timingIndex].split('-->').map(part => part.trim().split(/\s+/)[0]);
+        const markup = lines.slice(timingIndex + 1).join('\n').replace(/<[^>]+>/g, '');
+        const cueText = (isVtt ? unescapeVtt(markup) : markup).trim();
+        if (cueText) cues.push({ start: parseTimestamp(start), end: parseTimestamp(end), text: cueText });
+    });
+    return cues;
+}
+
+// --- BURN-IN ---
+
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+        let line = '';
+        paragraph.split(/\s+/).forEach(word => {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && ctx.measureText(candidate).width > maxWidth) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        });
+        if (line) lines.push(line);
+    });
+    return lines;
+}
+
+/**
+ * Draws the cue active at `time` near the bottom of the frame, if there is one.
+ */
+export function drawSubtitle(ctx: CanvasRenderingContext2D, cues: SubtitleCue[], time: number, width: number, height: number) {
+    const cue = cues.find(c => time >= c.start && time < c.end);
+    if (!cue) return;
+
+    const fontSize = Math.round(Math.min(width, height) / 16);
+    ctx.save();
+    ctx.globalAlpha = 1;
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = Math.max(2, fontSize / 6);
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.85)';
+    ctx.fillStyle = '#ffffff';
+
+    const lines = wrapText(ctx, cue.text, width * 0.86);
+    const lineHeight = fontSize * 1.25;
+    let y = height - height * 0.08 - (lines.length - 1) * lineHeight;
+    lines.forEach(line => {
+        ctx.strokeText(line, width / 2, y);
+        ctx.fillText(line, width / 2, y);
+        y += lineHeight;
+    });
+    ctx.restore();
+}
@@ -14,6 +14,27 @@
 import { GoogleGenAI } from '@google/genai';
 import * as state from './state';
 import * as api from './api';
+import { initializeProvider } from './providers';
+import { initializeProductStudio } from './product-studio';
+import { initializeVoiceOver } from './voice-over';
+import { initializeAssemble, resetAssemble } from './assemble';
+import { initializePromptPacks, resetPromptPackPickers } from './prompt-packs';
+import { initializeProjects } from './projects';
+import { buildAssetZip } from './asset-zip';
+import { initializeVideoJobs } from './video-jobs';
+import { schedule } from './scheduler';
+import { errorMessageHtml, errorTitle, JobCancelledError } from './errors';
+import { initializeQueuePanel } from './queue-panel';
+import { initializeJobCards, scheduleForCard } from './job-cards';
+import { checkBudgets, DEFAULT_VIDEO_SECONDS, estimateRunCost, formatCost, PlannedCall } from './usage';
+import { initializeUsagePanel } from './usage-panel';
+import { addGeneratedAsset, initializeHistory } from './history';
+import { initializeRefine } from './refine';
+import { initializeInpaint } from './inpaint';
+import { initializeOverlays } from './overlays';
+import { initializeOutputSettings } from './normalize';
+import { defaultAspectRatio, supportedAspectRatios } from './models';
+import { BatchPair, captureBatchMatrix, getBatchPairs, initializeBatchMatrix, restoreBatchMatrix } from './batch-matrix';
 
 // --- DOM ELEMENTS (DECLARED HERE, INITIALIZED IN initializeUI) ---
 let generatorSection: HTMLElement;
@@ -42,33 +63,66 @@ let addImageSceneBtn: HTMLButtonElement;
 let singleModelUploadGroup: HTMLElement;
 
 
-// Concurrency limits for parallel generation to avoid rate-limiting
-const IMAGE_CONCURRENCY_LIMIT = 3;
-const VIDEO_CONCURRENCY_LIMIT = 2;
 const SUBTITLE_TEXT = 'Mass Accounts • Mass Content • Maximum Profit';
 
-// --- UI HELPER FUNCTIONS ---
+// --- MODE REGISTRY ---
 
 /**
- * Runs a set of promise-returning functions with a specified concurrency limit.
- * This prevents hitting API rate limits while speeding up generation.
- * @param tasks An array of functions, where each function returns a Promise.
- * @param limit The maximum number of tasks to run concurrently.
+ * A feature module that plugs into the sidebar as its own mode.
+ * `run` is called by the Generate button while the mode is active, and
+ * `reset` is called when the user switches to a different mode.
+ * `capture` and `restore` let projects save and reopen the mode's inputs.
  */
-async function runWithConcurrency(tasks: Array<() => Promise<any>>, limit: number): Promise<void> {
-    const executing = new Set<Promise<any>>();
-    for (const task of tasks) {
-        const promise = task().finally(() => {
-            executing.delete(promise);
-        });
-        executing.add(promise);
-        if (executing.size >= limit) {
-            await Promise.race(executing);
-        }
-    }
-    await Promise.all(Array.from(executing));
+export interface ModeDefinition {
+    run: () => Promise<void>;
+    reset?: () => void;
+    /** Returns a JSON-safe snapshot of the mode's inputs and settings. */
+    capture?: () => Record<string, any>;
+    /** Puts a snapshot from `capture` back. An empty snapshot restores the defaults. */
+    restore?: (snapshot: Record<string, any>) => void;
+    /** Lists the calls a run with the current inputs would make, so its cost can be checked against the budgets. */
+    estimate?: () => PlannedCall[];
+    /** Builds snapshot fields that put the prompt and inputs of one of the mode's outputs back into its editor. */
+    fromAsset?: (info: state.AssetInfo) => Record<string, any>;
+}
+
+interface ModeSwitchListener {
+    /** Called before the panels of the mode being left are cleared. */
+    before?: (from: state.AppMode) => void;
+    /** Called once the new mode's panel is showing. */
+    after?: (to: state.AppMode) => void;
 }
 
+const registeredModes = new Map<state.AppMode, ModeDefinition>();
+const modeSwitchListeners: ModeSwitchListener[] = [];
+
+/**
+ * Registers a feature module's mode so the Generate button and the
+ * mode-switch cleanup can reach it without touching ui.ts.
+ * @param mode The mode id, matching the sidebar button's `data-mode` and the `<mode>-panel` id.
+ * @param definition The generation and reset hooks for the mode.
+ */
+export function registerMode(mode: state.AppMode, definition: ModeDefinition) {
+    registeredModes.set(mode, definition);
+}
+
+export function getModeDefinition(mode: state.AppMode): ModeDefinition | undefined {
+    return registeredModes.get(mode);
+}
+
+export function onModeSwitch(listener: ModeSwitchListener) {
+    modeSwitchListeners.push(listener);
+}
+
+/**
+ * Switches modes the same way a click on the sidebar button does.
+ */
+export function switchMode(mode: state.AppMode) {
+    (sidebarNav.querySelector(`.sidebar-menu-button[data-mode="${mode}"]`) as HTMLElement | null)?.click();
+}
+
+// --- UI HELPER FUNCTIONS ---
+
 function setLoadingState(element: HTMLElement, message: string) {
   element.classList.remove('loading');
   element.innerHTML = message;
@@ -93,7 +147,10 @@ function clearOtherModeInputs(currentMode: string) {
                     } else if (input.type !== 'button' && input.type !== 'submit') {
                         input.value = '';
                     }
-                } else { // For HTMLTextAreaElement and HTMLSelectElement
+                } else if (input instanceof HTMLSelectElement) {
+                    // Selects have no empty option, so fall back to their first choice.
+                    input.selectedIndex = 0;
+                } else {
                     input.value = '';
                 }
             });
@@ -114,8 +171,13 @@ function clearOtherModeInputs(currentMode: string) {
     }
     if (currentMode !== 'video-storyboard') {
         state.resetStoryboard();
+        resetAssemble();
         if (storyboardScenesContainer) storyboardScenesContainer.innerHTML = '';
     }
+    registeredModes.forEach((definition, mode) => {
+        if (mode !== currentMode && definition.reset) definition.reset();
+    });
+    resetPromptPackPickers();
 }
 
 export function setupFileUpload(
@@ -165,17 +227,41 @@ export function setupFileUpload(
 
 // --- GENERATION LOGIC WRAPPERS (CALLS CORE API FUNCTIONS AND UPDATES UI) ---
 
+/**
+ * Checks a run's estimated cost against the budgets. Returns false when
+ * the run should not start, either because budgets block it or because the
+ * user declined the warning. Regenerate and edit buttons check it too.
+ */
+export function confirmWithinBudget(calls: PlannedCall[]): boolean {
+    const cost = estimateRunCost(calls);
+    const problem = checkBudgets(cost);
+    if (!problem) return true;
+    const message = `This run is estimated at ${formatCost(cost)}, which would take ${problem.limit === 'session' ? 'this session' : 'today'} to ${formatCost(problem.spent + cost)}, over the ${formatCost(problem.budget)} ${problem.limit} budget.`;
+    if (problem.action === 'block') {
+        globalStatusEl.textContent = `${message} Raise the budget under Usage to continue.`;
+        return false;
+    }
+    if (!confirm(`${message}\n\nGenerate anyway?`)) {
+        globalStatusEl.textContent = 'Generation skipped to stay within budget.';
+        return false;
+    }
+    return true;
+}
+
 async function handleGenerateClick() {
     // API Key check is no longer needed as we assume it's always present.
     try {
-        switch (state.activeMode) {
-            case 'image-studio': await runImageStudioGeneration(); break;
-            case 'image-storyboard': await generateImageStoryboard(); break;
-            case 'video-storyboard': await runVideoStoryboardGeneration(); break;
-        }
+        const registered = registeredModes.get(state.activeMode);
+        if (registered && !confirmWithinBudget(registered.estimate?.() || [])) return;
+        if (registered) await registered.run();
     } catch (error: any) {
+        if (error instanceof JobCancelledError) {
+            globalStatusEl.textContent = 'Generation cancelled.';
+            generateButton.disabled = false;
+            return;
+        }
         console.error("Generation failed:", error);
-        globalStatusEl.innerHTML = `Error: ${error.message}`;
+        globalStatusEl.textContent = `${errorTitle(error)}: ${error.message}`;
         generateButton.disabled = false; // Re-enable on failure
     }
 }
@@ -213,11 +299,17 @@ async function runCombineImagesGeneration() {
     const aspectRatio = document.querySelector('#combine-aspect-ratio-selector .tab-button.active')?.getAttribute('data-ratio') || '1:1';
 
     try {
-        const result = await api.generateImageWithPrompt(prompt, aspectRatio, resultItem, state.modelImageBase64, state.productImageBase64);
+        const result = await scheduleForCard(resultItem, {
+            label: 'Combined image', model: api.IMAGE_EDIT_MODEL, priority: 'high',
+            run: (attempt, signal) => api.generateImageWithPrompt(prompt, aspectRatio, resultItem, state.modelImageBase64, state.productImageBase64, signal),
+        });
         if (result) {
-            state.generatedAssetUrls.push({ url: result.imageUrl, filename: result.filename });
+            addGeneratedAsset({ url: result.imageUrl, filename: result.filename, info: {
+                mode: 'image-studio', label: 'combined', prompt, model: result.model, aspectRatio,
+                inputs: imageInputs(state.modelImageBase64, state.productImageBase64), createdAt: Date.now(),
+            } });
              (resultItem as any).dataset.filename = result.filename;
-            const aspectClass = `aspect-${aspectRatio.replace(':', '-')}`;
+            const aspectClass = state.aspectClass(aspectRatio);
             resultItem.innerHTML = `
                 <div class="image-container ${aspectClass}">
                     <img src="${result.imageUrl}" alt="Generated storyboard image">
@@ -231,7 +323,7 @@ async function runCombineImagesGeneration() {
         }
         globalStatusEl.textContent = 'Image combination complete!';
     } catch (error: any) {
-        resultItem.innerHTML = `<p class="status-error">Error: ${error.message}</p><button class="card-button regenerate-button" data-prompt="${encodeURIComponent(prompt)}" data-aspect-ratio="${aspectRatio}" data-model-base64="${state.modelImageBase64}" data-product-base64="${state.productImageBase64}">Regenerate</button>`;
+        resultItem.innerHTML = `${errorMessageHtml(error)}<button class="card-button regenerate-button" data-prompt="${encodeURIComponent(prompt)}" data-aspect-ratio="${aspectRatio}" data-model-base64="${state.modelImageBase64}" data-product-base64="${state.productImageBase64}">Regenerate</button>`;
         clearLoadingState(resultItem);
         globalStatusEl.textContent = 'An error occurred during image combination.';
     }
@@ -239,13 +331,35 @@ async function runCombineImagesGeneration() {
     generateButton.disabled = false;
 }
 
+function estimateImageStudio(): PlannedCall[] {
+    return [{ model: api.IMAGE_EDIT_MODEL, images: 1 }];
+}
+
+function estimateImageStoryboard(): PlannedCall[] {
+    const scenes = state.imageStoryboardScenes.filter(scene => scene.prompt.trim() !== '').length;
+    const pairs = getBatchPairs()?.length ?? 1;
+    return [{ model: api.IMAGE_EDIT_MODEL, images: scenes * pairs }];
+}
+
+function estimateVideoStoryboard(): PlannedCall[] {
+    const scenes = state.storyboardScenes.filter(sc => sc.file && sc.prompt).length;
+    return [{ model: api.VIDEO_MODEL, videoSeconds: scenes * DEFAULT_VIDEO_SECONDS }];
+}
+
 async function generateImageStoryboard() {
     const scenesToGenerate = state.imageStoryboardScenes.filter(scene => scene.prompt.trim() !== '');
     if (scenesToGenerate.length === 0) {
         globalStatusEl.textContent = 'Please add at least one scene with a prompt.';
         return;
     }
-    if (!state.productImageBase64 || !state.modelImageBase64) {
+    // The batch matrix runs every ticked pair; otherwise the single uploads form the only pair.
+    const pairs: Array<Partial<BatchPair> & { productBase64: string; modelBase64: string }> =
+        getBatchPairs() ?? [{ productBase64: state.productImageBase64, modelBase64: state.modelImageBase64 }];
+    if (state.batchMatrixEnabled && pairs.length === 0) {
+        globalStatusEl.textContent = 'Please add products and models and tick at least one combination.';
+        return;
+    }
+    if (!state.batchMatrixEnabled && (!state.productImageBase64 || !state.modelImageBase64)) {
         globalStatusEl.textContent = 'Please upload both product and model images.';
         return;
     }
@@ -254,45 +368,58 @@ async function generateImageStoryboard() {
     generateButton.disabled = true;
     resultsContainer.innerHTML = '';
     state.generatedAssetUrls.length = 0;
-    globalStatusEl.textContent = `Queuing ${scenesToGenerate.length} storyboard scenes...`;
+    const total = pairs.length * scenesToGenerate.length;
+    globalStatusEl.textContent = pairs.length > 1
+        ? `Queuing ${total} scenes for ${pairs.length} combinations...`
+        : `Queuing ${scenesToGenerate.length} storyboard scenes...`;
 
     const aspectRatio = document.querySelector('#combine-aspect-ratio-selector .tab-button.active')?.getAttribute('data-ratio') || '1:1';
 
-    const tasks = scenesToGenerate.map((scene, i) => {
-        const resultItem = document.createElement('div');
-        resultItem.className = 'result-item status loading';
-        resultItem.innerHTML = `<p>Waiting : Sabar Yaa!</p>`;
-        resultsContainer.appendChild(resultItem);
-
-        return async () => {
-            resultItem.innerHTML = `<p>Generating Scene ${i + 1}...</p>`;
-            try {
-                const result = await api.retryWithBackoff(() => api.generateImageWithPrompt(scene.prompt, aspectRatio, resultItem, state.modelImageBase64, state.productImageBase64), 3, 2000, (attempt) => {
-                    resultItem.innerHTML = `<p>Retrying Scene ${i + 1} (Attempt ${attempt + 1})...</p>`;
-                });
-                if (result) {
-                    state.generatedAssetUrls.push({ url: result.imageUrl, filename: result.filename });
-                    (resultItem as any).dataset.filename = result.filename;
-                    const aspectClass = `aspect-${aspectRatio.replace(':', '-')}`;
-                    resultItem.innerHTML = `
-                        <div class="image-container ${aspectClass}">
-                            <img src="${result.imageUrl}" alt="Generated storyboard image">
-                        </div>
-                        <div class="card-actions">
-                            <a href="${result.imageUrl}" download="${result.filename}" class="card-button">Download</a>
-                            <button class="card-button regenerate-button" data-prompt="${encodeURIComponent(scene.prompt)}" data-aspect-ratio="${aspectRatio}" data-model-base64="${state.modelImageBase64}" data-product-base64="${state.productImageBase64}">Regenerate</button>
-                        </div>`;
+    const tasks = pairs.flatMap(({ productBase64, modelBase64, title, group }) => {
+        if (title) appendResultGroupHeading(title);
+        return scenesToGenerate.map((scene, i) => {
+            const resultItem = document.createElement('div');
+            resultItem.className = 'result-item status loading';
+            resultItem.innerHTML = `<p>Waiting : Sabar Yaa!</p>`;
+            resultsContainer.appendChild(resultItem);
+            const sceneName = title ? `${title}, Scene ${i + 1}` : `Scene ${i + 1}`;
+
+            return async () => {
+                try {
+                    const result = await scheduleForCard(resultItem, {
+                        label: sceneName, model: api.IMAGE_EDIT_MODEL, retries: 2,
+                        run: (attempt, signal) => {
+                            resultItem.innerHTML = attempt > 1 ? `<p>Retrying ${sceneName} (Attempt ${attempt})...</p>` : `<p>Generating ${sceneName}...</p>`;
+                            return api.generateImageWithPrompt(scene.prompt, aspectRatio, resultItem, modelBase64, productBase64, signal);
+                        },
+                    });
+                    if (result) {
+                        addGeneratedAsset({ url: result.imageUrl, filename: result.filename, info: {
+                            mode: 'image-storyboard', label: state.assetLabel('scene', i + 1), prompt: scene.prompt, model: result.model, aspectRatio,
+                            inputs: imageInputs(modelBase64, productBase64), group, createdAt: Date.now(),
+                        } });
+                        (resultItem as any).dataset.filename = result.filename;
+                        const aspectClass = state.aspectClass(aspectRatio);
+                        resultItem.innerHTML = `
+                            <div class="image-container ${aspectClass}">
+                                <img src="${result.imageUrl}" alt="Generated storyboard image">
+                            </div>
+                            <div class="card-actions">
+                                <a href="${result.imageUrl}" download="${result.filename}" class="card-button">Download</a>
+                                <button class="card-button regenerate-button" data-prompt="${encodeURIComponent(scene.prompt)}" data-aspect-ratio="${aspectRatio}" data-model-base64="${modelBase64}" data-product-base64="${productBase64}">Regenerate</button>
+                            </div>`;
+                        clearLoadingState(resultItem);
+                        downloadAllButton.classList.remove('hidden');
+                    }
+                } catch (error: any) {
+                    resultItem.innerHTML = `${errorMessageHtml(error)}<button class="card-button regenerate-button" data-prompt="${encodeURIComponent(scene.prompt)}" data-aspect-ratio="${aspectRatio}" data-model-base64="${modelBase64}" data-product-base64="${productBase64}">Regenerate</button>`;
                     clearLoadingState(resultItem);
-                    downloadAllButton.classList.remove('hidden');
                 }
-            } catch (error: any) {
-                resultItem.innerHTML = `<p class="status-error">Error: ${error.message}</p><button class="card-button regenerate-button" data-prompt="${encodeURIComponent(scene.prompt)}" data-aspect-ratio="${aspectRatio}" data-model-base64="${state.modelImageBase64}" data-product-base64="${state.productImageBase64}">Regenerate</button>`;
-                clearLoadingState(resultItem);
-            }
-        };
+            };
+        });
     });
 
-    await runWithConcurrency(tasks, IMAGE_CONCURRENCY_LIMIT);
+    await Promise.all(tasks.map(task => task()));
 
     globalStatusEl.textContent = 'Storyboard generation complete!';
     generateButton.disabled = false;
@@ -311,7 +438,7 @@ async function runVideoStoryboardGeneration() {
     state.generatedAssetUrls.length = 0;
     globalStatusEl.textContent = `Queuing ${scenesToGenerate.length} video scenes...`;
 
-    const aspectRatio = document.querySelector(`#video-storyboard-aspect-ratio-selector .tab-button.active`)?.getAttribute('data-ratio') || '1:1';
+    const aspectRatio = document.querySelector(`#video-storyboard-aspect-ratio-selector .tab-button.active`)?.getAttribute('data-ratio') || defaultAspectRatio(api.VIDEO_MODEL);
 
     const tasks = scenesToGenerate.map((scene, i) => {
         const resultItem = document.createElement('div');
@@ -320,12 +447,17 @@ async function runVideoStoryboardGeneration() {
         resultsContainer.appendChild(resultItem);
 
         return async () => {
-            resultItem.innerHTML = `<p>Generating video for Scene ${i + 1}...</p>`;
             try {
-                const result = await api.generateVideoForScene(scene, scene.prompt, resultItem, aspectRatio);
+                const result = await scheduleForCard(resultItem, {
+                    label: `Video Scene ${i + 1}`, model: api.VIDEO_MODEL, repeatable: false,
+                    run: (attempt, signal) => {
+                        resultItem.innerHTML = `<p>Generating video for Scene ${i + 1}...</p>`;
+                        return api.generateVideoForScene(scene, scene.prompt, resultItem, aspectRatio, signal);
+                    },
+                });
 
                 if (result) {
-                    const aspectClass = aspectRatio === '1:1' ? 'aspect-1-1' : 'aspect-9-16';
+                    const aspectClass = state.aspectClass(aspectRatio);
                     resultItem.innerHTML = `
                         <div class="video-container ${aspectClass}">
                             <video src="${result.videoUrl}" controls loop autoplay muted></video>
@@ -336,12 +468,13 @@ async function runVideoStoryboardGeneration() {
                             <button class="card-button regenerate-video-button" data-scene-id="${scene.id}" data-aspect-ratio="${aspectRatio}" data-context="${state.activeMode}">Regenerate</button>
                         </div>`;
                     clearLoadingState(resultItem);
-                    state.generatedAssetUrls.push({ url: result.videoUrl, filename: result.filename });
+                    state.updateStoryboardScene(scene.id, { videoUrl: result.videoUrl });
+                    addGeneratedAsset({ url: result.videoUrl, filename: result.filename, info: videoSceneInfo(scene, result.model, aspectRatio) });
                     downloadAllButton.classList.remove('hidden');
                 }
             } catch (error: any) {
                 resultItem.innerHTML = `
-                    <p class="status-error">${error.message}</p>
+                    ${errorMessageHtml(error)}
                     <div class="card-actions">
                         <button class="card-button regenerate-video-button" data-scene-id="${scene.id}" data-aspect-ratio="${aspectRatio}" data-context="${state.activeMode}">Regenerate</button>
                     </div>`;
@@ -350,38 +483,347 @@ async function runVideoStoryboardGeneration() {
         };
     });
 
-    await runWithConcurrency(tasks, VIDEO_CONCURRENCY_LIMIT);
+    await Promise.all(tasks.map(task => task()));
 
     globalStatusEl.textContent = 'Video storyboard generation complete!';
     generateButton.disabled = false;
 }
 
 
-// --- EVENT LISTENERS ---
+// --- STORYBOARD SCENE SLOTS ---
 
-function setupStoryboardEventListeners(container: HTMLElement, addBtn: HTMLButtonElement) {
-    addBtn.addEventListener('click', () => {
-        const sceneId = state.getNextSceneId();
-        state.addStoryboardScene({ id: sceneId, file: null, base64: null, mimeType: null, prompt: '' });
-        const slot = document.createElement('div');
-        slot.className = 'scene-upload-slot';
-        slot.dataset.sceneId = sceneId.toString();
-        slot.innerHTML = `
-            <div class="scene-header">
-                <span class="scene-number">${state.storyboardScenes.length}</span>
-                <div class="scene-file-info">
-                    <img src="" alt="Scene preview" class="scene-preview hidden">
-                    <label for="scene-input-${sceneId}" class="scene-upload-label">Click to upload image</label>
-                    <input type="file" id="scene-input-${sceneId}" accept="image/*" class="sr-only">
-                </div>
-                <button class="scene-remove-btn" aria-label="Remove scene">&times;</button>
+function addImageStoryboardSceneSlot(prompt = '') {
+    const sceneId = state.getNextImageSceneId();
+    const newScene = { id: sceneId, prompt };
+    state.addImageStoryboardScene(newScene);
+
+    const slot = document.createElement('div');
+    slot.className = 'scene-upload-slot';
+    slot.dataset.sceneId = sceneId.toString();
+    slot.innerHTML = `
+        <div class="scene-prompt-container">
+            <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: var(--space-xs);">
+                <label for="image-scene-prompt-${sceneId}" class="scene-title-label" style="font-weight: 600; color: var(--text-secondary);">Scene ${state.imageStoryboardScenes.length}</label>
+                <button class="scene-remove-btn" style="position: static; transform: none;" aria-label="Remove scene">&times;</button>
+            </div>
+            <textarea id="image-scene-prompt-${sceneId}" class="scene-prompt-textarea" rows="4" placeholder="e.g., Model holding the product happily..."></textarea>
+        </div>`;
+    (slot.querySelector('textarea') as HTMLTextAreaElement).value = prompt;
+    imageStoryboardScenesContainer.appendChild(slot);
+}
+
+function addVideoStoryboardSceneSlot(prompt = '') {
+    const sceneId = state.getNextSceneId();
+    state.addStoryboardScene({ id: sceneId, file: null, base64: null, mimeType: null, prompt, videoUrl: null });
+    const slot = document.createElement('div');
+    slot.className = 'scene-upload-slot';
+    slot.dataset.sceneId = sceneId.toString();
+    slot.innerHTML = `
+        <div class="scene-header">
+            <span class="scene-number">${state.storyboardScenes.length}</span>
+            <div class="scene-file-info">
+                <img src="" alt="Scene preview" class="scene-preview hidden">
+                <label for="scene-input-${sceneId}" class="scene-upload-label">Click to upload image</label>
+                <input type="file" id="scene-input-${sceneId}" accept="image/*" class="sr-only">
             </div>
-            <div class="scene-prompt-container">
-                <label for="scene-prompt-${sceneId}">Motion Prompt</label>
-                <textarea id="scene-prompt-${sceneId}" class="scene-prompt-textarea" rows="4" placeholder="Describe the motion for this scene..."></textarea>
-            </div>`;
-        container.appendChild(slot);
+            <button class="scene-remove-btn" aria-label="Remove scene">&times;</button>
+        </div>
+        <div class="scene-prompt-container">
+            <label for="scene-prompt-${sceneId}">Motion Prompt</label>
+            <textarea id="scene-prompt-${sceneId}" class="scene-prompt-textarea" rows="4" placeholder="Upload an image and AI will suggest the motion for this scene..."></textarea>
+            <div class="prompt-controls">
+                <button class="enhance-prompt-btn scene-suggest-btn" disabled>Regenerate Suggestion</button>
+            </div>
+        </div>`;
+    (slot.querySelector('textarea') as HTMLTextAreaElement).value = prompt;
+    storyboardScenesContainer.appendChild(slot);
+}
+
+/**
+ * Replaces the image storyboard scenes with one scene per prompt.
+ */
+export function populateImageStoryboard(prompts: string[]) {
+    state.resetImageStoryboard();
+    imageStoryboardScenesContainer.innerHTML = '';
+    prompts.forEach(prompt => addImageStoryboardSceneSlot(prompt));
+}
+
+/**
+ * Replaces the video storyboard scenes with one empty-image scene per motion prompt.
+ */
+export function populateVideoStoryboard(prompts: string[]) {
+    state.resetStoryboard();
+    storyboardScenesContainer.innerHTML = '';
+    prompts.forEach(prompt => addVideoStoryboardSceneSlot(prompt));
+}
+
+/**
+ * Shows the shared modal with the given title and body content.
+ */
+export function openModal(title: string, body: HTMLElement) {
+    const modal = document.querySelector('#universal-modal') as HTMLElement;
+    (modal.querySelector('#modal-title') as HTMLElement).textContent = title;
+    const modalBody = modal.querySelector('#modal-body') as HTMLElement;
+    modalBody.innerHTML = '';
+    modalBody.appendChild(body);
+    modal.classList.remove('hidden');
+}
+
+export function closeModal() {
+    const modal = document.querySelector('#universal-modal') as HTMLElement;
+    modal.classList.add('hidden');
+    (modal.querySelector('#modal-body') as HTMLElement).innerHTML = '';
+}
+
+// --- PROJECT SNAPSHOTS FOR BUILT-IN MODES ---
+
+function getActiveTabValue(containerSelector: string, attribute: string, fallback: string): string {
+    return document.querySelector(`${containerSelector} .tab-button.active`)?.getAttribute(attribute) || fallback;
+}
+
+/**
+ * Fills an aspect ratio selector with the ratios the mode's model can
+ * produce, with the model's default ratio selected.
+ */
+function renderAspectRatioTabs(containerSelector: string, model: string) {
+    const defaultRatio = defaultAspectRatio(model);
+    document.querySelector(containerSelector)!.innerHTML = supportedAspectRatios(model)
+        .map(ratio => `<button class="tab-button ${ratio === defaultRatio ? 'active' : ''}" data-ratio="${ratio}">${ratio}</button>`)
+        .join('');
+}
+
+/**
+ * Marks the tab button whose attribute matches `value` as active, if there is one.
+ */
+export function setActiveTab(containerSelector: string, attribute: string, value: string) {
+    const buttons = document.querySelectorAll<HTMLElement>(`${containerSelector} .tab-button`);
+    if (!Array.from(buttons).some(btn => btn.getAttribute(attribute) === value)) return;
+    buttons.forEach(btn => btn.classList.toggle('active', btn.getAttribute(attribute) === value));
+}
+
+/**
+ * Shows (or hides, for an empty string) the preview of an upload created by `setupFileUpload`
+ * when its image is set from code rather than picked by the user.
+ */
+export function showFileUploadPreview(previewContainerId: string, previewImgId: string, fileNameElId: string, base64: string, emptyLabel: string) {
+    const previewContainer = document.getElementById(previewContainerId) as HTMLElement;
+    const previewImg = document.getElementById(previewImgId) as HTMLImageElement;
+    const fileNameEl = document.getElementById(fileNameElId) as HTMLElement;
+    previewImg.src = base64 ? `data:image/png;base64,${base64}` : '';
+    previewContainer.classList.toggle('hidden', !base64);
+    if (fileNameEl) fileNameEl.textContent = base64 ? 'Saved image' : emptyLabel;
+}
+
+function restoreProductAndModel(snapshot: Record<string, any>) {
+    state.setProductImageBase64(snapshot.productImageBase64 || '');
+    state.setModelImageBase64(snapshot.modelImageBase64 || '');
+    showFileUploadPreview('product-image-preview-container', 'product-image-preview', 'product-file-name', state.productImageBase64, 'Upload Product Image');
+    showFileUploadPreview('model-image-preview-container', 'model-image-preview', 'model-file-name', state.modelImageBase64, 'Upload Model Image');
+}
+
+function captureImageStudio() {
+    return {
+        productImageBase64: state.productImageBase64,
+        modelImageBase64: state.modelImageBase64,
+        faceImageBase64: state.faceImageBase64,
+        prompt: combinePromptInput.value,
+        hair: changeHairInput.value,
+        clothes: changeClothesInput.value,
+        aspectRatio: getActiveTabValue('#combine-aspect-ratio-selector', 'data-ratio', '1:1'),
+    };
+}
+
+function restoreImageStudio(snapshot: Record<string, any>) {
+    restoreProductAndModel(snapshot);
+    state.setFaceImageBase64(snapshot.faceImageBase64 || '');
+    showFileUploadPreview('face-image-preview-container', 'face-image-preview', 'face-file-name', state.faceImageBase64, 'Upload New Face');
+    combinePromptInput.value = snapshot.prompt ?? combinePromptInput.defaultValue;
+    changeHairInput.value = snapshot.hair || '';
+    changeClothesInput.value = snapshot.clothes || '';
+    setActiveTab('#combine-aspect-ratio-selector', 'data-ratio', snapshot.aspectRatio || '1:1');
+}
+
+function captureImageStoryboard() {
+    return {
+        productImageBase64: state.productImageBase64,
+        modelImageBase64: state.modelImageBase64,
+        scenePrompts: state.imageStoryboardScenes.map(scene => scene.prompt),
+        aspectRatio: getActiveTabValue('#combine-aspect-ratio-selector', 'data-ratio', '1:1'),
+        batch: captureBatchMatrix(),
+    };
+}
+
+function restoreImageStoryboard(snapshot: Record<string, any>) {
+    restoreProductAndModel(snapshot);
+    populateImageStoryboard(snapshot.scenePrompts || []);
+    restoreBatchMatrix(snapshot.batch);
+    setActiveTab('#combine-aspect-ratio-selector', 'data-ratio', snapshot.aspectRatio || '1:1');
+}
+
+function captureVideoStoryboard() {
+    return {
+        scenes: state.storyboardScenes.map(scene => ({
+            fileName: scene.file?.name || null,
+            base64: scene.base64,
+            mimeType: scene.mimeType,
+            prompt: scene.prompt,
+            // Outputs get new URLs when a project is reopened, so link them by filename.
+            videoFilename: state.generatedAssetUrls.find(asset => asset.url === scene.videoUrl)?.filename || null,
+        })),
+        aspectRatio: getActiveTabValue('#video-storyboard-aspect-ratio-selector', 'data-ratio', defaultAspectRatio(api.VIDEO_MODEL)),
+    };
+}
+
+/**
+ * Rebuilds the video storyboard scenes, including their images. Expects the
+ * mode's saved outputs to be back in `state.generatedAssetUrls` already.
+ */
+function restoreVideoStoryboard(snapshot: Record<string, any>) {
+    const scenes: any[] = snapshot.scenes || [];
+    populateVideoStoryboard(scenes.map(scene => scene.prompt || ''));
+    state.storyboardScenes.forEach((scene, i) => {
+        const saved = scenes[i];
+        const videoUrl = state.generatedAssetUrls.find(asset => asset.filename === saved.videoFilename)?.url || null;
+        state.updateStoryboardScene(scene.id, { videoUrl });
+        if (!saved.base64 || !saved.mimeType) return;
+
+        const file = new File([state.base64ToBlob(saved.base64, saved.mimeType)], saved.fileName || `scene-${i + 1}`, { type: saved.mimeType });
+        state.updateStoryboardScene(scene.id, { file, base64: saved.base64, mimeType: saved.mimeType });
+        const slot = storyboardScenesContainer.querySelector(`.scene-upload-slot[data-scene-id="${scene.id}"]`) as HTMLElement;
+        const preview = slot.querySelector('.scene-preview') as HTMLImageElement;
+        preview.src = URL.createObjectURL(file);
+        preview.classList.remove('hidden');
+        (slot.querySelector('.scene-upload-label') as HTMLElement).textContent = file.name;
+        (slot.querySelector('.scene-suggest-btn') as HTMLButtonElement).disabled = false;
     });
+    setActiveTab('#video-storyboard-aspect-ratio-selector', 'data-ratio', snapshot.aspectRatio || defaultAspectRatio(api.VIDEO_MODEL));
+}
+
+function imageStudioFromAsset(info: state.AssetInfo) {
+    return {
+        productImageBase64: state.assetInput(info, 'product'),
+        modelImageBase64: state.assetInput(info, 'model'),
+        faceImageBase64: state.assetInput(info, 'face'),
+        prompt: info.prompt,
+        aspectRatio: info.aspectRatio,
+    };
+}
+
+function imageStoryboardFromAsset(info: state.AssetInfo) {
+    return {
+        productImageBase64: state.assetInput(info, 'product'),
+        modelImageBase64: state.assetInput(info, 'model'),
+        scenePrompts: [info.prompt || ''],
+        aspectRatio: info.aspectRatio,
+        batch: undefined,
+    };
+}
+
+function videoStoryboardFromAsset(info: state.AssetInfo) {
+    const image = info.inputs?.find(input => input.role === 'scene-image');
+    return {
+        scenes: [{ fileName: info.label, base64: image?.base64 || null, mimeType: image?.mimeType || null, prompt: info.prompt || '', videoFilename: null }],
+        aspectRatio: info.aspectRatio,
+    };
+}
+
+/**
+ * Lists the uploaded images an image generation used, in the order they are sent to the model.
+ */
+function imageInputs(modelBase64: string, productBase64?: string | null): state.AssetInfo['inputs'] {
+    const inputs: NonNullable<state.AssetInfo['inputs']> = [];
+    if (productBase64) inputs.push({ role: 'product', base64: productBase64 });
+    if (modelBase64) inputs.push({ role: 'model', base64: modelBase64 });
+    if (state.faceImageBase64 && state.activeMode === 'image-studio') inputs.push({ role: 'face', base64: state.faceImageBase64 });
+    return inputs;
+}
+
+function videoSceneInfo(scene: typeof state.storyboardScenes[0], model: string, aspectRatio: string): state.AssetInfo {
+    return {
+        mode: 'video-storyboard',
+        label: state.assetLabel('scene', state.storyboardScenes.indexOf(scene) + 1),
+        prompt: scene.prompt,
+        model,
+        aspectRatio,
+        inputs: [{ role: 'scene-image', base64: scene.base64, mimeType: scene.mimeType }],
+        createdAt: Date.now(),
+    };
+}
+
+/**
+ * Adds a full-width heading to the results, above the cards of one group.
+ */
+export function appendResultGroupHeading(title: string) {
+    const heading = document.createElement('h3');
+    heading.className = 'result-group-heading';
+    heading.textContent = title;
+    resultsContainer.appendChild(heading);
+}
+
+/**
+ * Adds a result card for an output that was saved in a project, without its generation controls.
+ */
+export function renderRestoredAsset(asset: state.GeneratedAsset, mimeType: string, aspectRatio: string) {
+    const aspectClass = state.aspectClass(aspectRatio);
+    const resultItem = document.createElement('div');
+    resultItem.className = 'result-item';
+    let media = '';
+    if (mimeType.startsWith('image/')) {
+        media = `<div class="image-container ${aspectClass}"><img src="${asset.url}" alt="Saved image"></div>`;
+    } else if (mimeType.startsWith('video/')) {
+        media = `<div class="video-container ${aspectClass}"><video src="${asset.url}" controls loop muted></video></div>`;
+    } else if (mimeType.startsWith('audio/')) {
+        resultItem.classList.add('audio-result-card');
+        media = `<audio controls src="${asset.url}" style="width: 100%;"></audio>`;
+    }
+    // Audio goes through the Voice Over export settings rather than a plain link.
+    const download = mimeType.startsWith('audio/')
+        ? `<button class="card-button audio-export-button" data-url="${asset.url}" data-filename="${asset.filename}">Download</button>`
+        : `<a href="${asset.url}" download="${asset.filename}" class="card-button">Download</a>`;
+    resultItem.innerHTML = `
+        ${media}
+        <p class="card-prompt"></p>
+        <div class="card-actions">
+            ${download}
+        </div>`;
+    (resultItem.querySelector('.card-prompt') as HTMLElement).textContent = asset.filename;
+    placeholder.classList.add('hidden');
+    // Outputs are saved in order, so a new group starts wherever the group changes.
+    const previousGroup = state.generatedAssetUrls[state.generatedAssetUrls.length - 1]?.info?.group;
+    if (asset.info?.group && asset.info.group !== previousGroup) appendResultGroupHeading(asset.info.group);
+    resultsContainer.appendChild(resultItem);
+    state.generatedAssetUrls.push(asset);
+    downloadAllButton.classList.remove('hidden');
+}
+
+// --- EVENT LISTENERS ---
+
+function setupStoryboardEventListeners(container: HTMLElement, addBtn: HTMLButtonElement) {
+    addBtn.addEventListener('click', () => addVideoStoryboardSceneSlot());
+
+    // Asks the vision model for a motion prompt and fills the scene's textarea with it.
+    const suggestMotionPrompt = async (slot: HTMLElement, sceneId: number) => {
+        const scene = state.storyboardScenes.find(sc => sc.id === sceneId);
+        if (!scene || !scene.base64 || !scene.mimeType) return;
+        const textarea = slot.querySelector('.scene-prompt-textarea') as HTMLTextAreaElement;
+        const suggestBtn = slot.querySelector('.scene-suggest-btn') as HTMLButtonElement;
+        textarea.disabled = true;
+        suggestBtn.disabled = true;
+        suggestBtn.textContent = 'Writing motion prompt...';
+        try {
+            const prompt = await schedule({
+                label: 'Motion prompt', model: api.TEXT_MODEL, priority: 'high',
+                run: (attempt, signal) => api.generateMotionPrompt(scene.base64!, scene.mimeType!, signal),
+            });
+            textarea.value = prompt;
+            state.updateStoryboardScene(sceneId, { prompt });
+        } catch (error: any) {
+            globalStatusEl.textContent = error.message;
+        }
+        textarea.disabled = false;
+        suggestBtn.disabled = false;
+        suggestBtn.textContent = 'Regenerate Suggestion';
+    };
 
     container.addEventListener('click', (e: Event) => {
         const target = e.target as HTMLElement;
@@ -395,6 +837,11 @@ function setupStoryboardEventListeners(container: HTMLElement, addBtn: HTMLButto
                     num.textContent = (index + 1).toString();
                 });
             }
+        } else if (target.classList.contains('scene-suggest-btn')) {
+            const slot = target.closest('.scene-upload-slot') as HTMLElement;
+            if (slot && slot.dataset.sceneId) {
+                suggestMotionPrompt(slot, parseInt(slot.dataset.sceneId, 10));
+            }
         }
     });
 
@@ -415,6 +862,14 @@ function setupStoryboardEventListeners(container: HTMLElement, addBtn: HTMLButto
                 preview.src = URL.createObjectURL(file);
                 preview.classList.remove('hidden');
                 label.textContent = file.name;
+
+                // Only fill in a suggestion if the user hasn't written their own prompt yet.
+                const scene = state.storyboardScenes.find(sc => sc.id === sceneId);
+                if (scene && !scene.prompt.trim()) {
+                    await suggestMotionPrompt(slot, sceneId);
+                } else {
+                    (slot.querySelector('.scene-suggest-btn') as HTMLButtonElement).disabled = false;
+                }
             }
         }
     });
@@ -436,10 +891,12 @@ function setupEventListeners() {
         const button = (e.target as HTMLElement).closest('.sidebar-menu-button');
         if (!button) return;
 
+        modeSwitchListeners.forEach(listener => listener.before?.(state.activeMode));
+
         sidebarNav.querySelectorAll('.sidebar-menu-button').forEach(btn => btn.classList.remove('active'));
         button.classList.add('active');
 
-        const mode = button.getAttribute('data-mode') as any;
+        const mode = button.getAttribute('data-mode') as state.AppMode;
         state.setActiveMode(mode);
         
         let titleText = button.querySelector('span')?.textContent || 'Control Panel';
@@ -458,7 +915,7 @@ function setupEventListeners() {
         const isStoryboard = state.activeMode === 'image-storyboard';
         
         combinePromptGroup.classList.toggle('hidden', isStoryboard);
-        storyboardPoseGroup.classList.toggle('hidden', true);
+        storyboardPoseGroup.classList.toggle('hidden', !isStoryboard);
         imageStoryboardCustomGroup.classList.toggle('hidden', !isStoryboard);
         advancedEditingSection.classList.toggle('hidden', isStoryboard);
         singleModelUploadGroup.classList.toggle('hidden', false); // Always visible in combine mode now
@@ -477,9 +934,31 @@ function setupEventListeners() {
         }
         state.generatedAssetUrls.length = 0;
         downloadAllButton.classList.add('hidden');
+
+        modeSwitchListeners.forEach(listener => listener.after?.(mode));
     });
 
     generateButton.addEventListener('click', handleGenerateClick);
+
+    registerMode('image-studio', {
+        run: runImageStudioGeneration, capture: captureImageStudio, restore: restoreImageStudio,
+        estimate: estimateImageStudio, fromAsset: imageStudioFromAsset,
+    });
+    registerMode('image-storyboard', {
+        run: generateImageStoryboard, capture: captureImageStoryboard, restore: restoreImageStoryboard,
+        estimate: estimateImageStoryboard, fromAsset: imageStoryboardFromAsset,
+    });
+    registerMode('video-storyboard', {
+        run: runVideoStoryboardGeneration, capture: captureVideoStoryboard, restore: restoreVideoStoryboard,
+        estimate: estimateVideoStoryboard, fromAsset: videoStoryboardFromAsset,
+    });
+
+    // Shared modal: close on the X button or a click on the backdrop.
+    const universalModal = document.querySelector('#universal-modal') as HTMLElement;
+    universalModal.addEventListener('click', (e: Event) => {
+        const target = e.target as HTMLElement;
+        if (target === universalModal || target.closest('#close-modal-btn')) closeModal();
+    });
     
     // File Uploads
     setupFileUpload('product-image-input', 'product-image-preview-container', 'product-image-preview', 'remove-product-image-button', 'product-file-name', (base64) => state.setProductImageBase64(base64));
@@ -518,17 +997,26 @@ function setupEventListeners() {
             const aspectRatio = regenerateBtn.getAttribute('data-aspect-ratio')!;
             const modelBase64 = regenerateBtn.getAttribute('data-model-base64')!;
             const productBase64 = regenerateBtn.getAttribute('data-product-base64');
+            if (!confirmWithinBudget([{ model: api.IMAGE_EDIT_MODEL, images: 1 }])) return;
             
             setLoadingState(resultItem, '<p>Regenerating...</p>');
             
             try {
-                const result = await api.retryWithBackoff(() => api.generateImageWithPrompt(prompt, aspectRatio, resultItem, modelBase64, productBase64), 3, 2000, (attempt) => {
-                    resultItem.innerHTML = `<p>Regeneration failed. Retrying... (Attempt ${attempt + 1})</p>`;
+                const result = await scheduleForCard(resultItem, {
+                    label: 'Regenerate image', model: api.IMAGE_EDIT_MODEL, priority: 'high', retries: 2,
+                    run: (attempt, signal) => {
+                        if (attempt > 1) resultItem.innerHTML = `<p>Regeneration failed. Retrying... (Attempt ${attempt})</p>`;
+                        return api.generateImageWithPrompt(prompt, aspectRatio, resultItem, modelBase64, productBase64, signal);
+                    },
                 });
                 if (result) {
-                    state.generatedAssetUrls.push({ url: result.imageUrl, filename: result.filename });
+                    const previous = state.generatedAssetUrls.find(asset => asset.filename === resultItem.dataset.filename)?.info;
+                    addGeneratedAsset({ url: result.imageUrl, filename: result.filename, info: {
+                        mode: state.activeMode, label: previous?.label || 'image', prompt, model: result.model, aspectRatio,
+                        inputs: imageInputs(modelBase64, productBase64), group: previous?.group, createdAt: Date.now(),
+                    } });
                     (resultItem as any).dataset.filename = result.filename;
-                    const aspectClass = `aspect-${aspectRatio.replace(':', '-')}`;
+                    const aspectClass = state.aspectClass(aspectRatio);
                     let cardContent = `
                         <div class="image-container ${aspectClass}">
                             <img src="${result.imageUrl}" alt="Generated storyboard image">
@@ -541,7 +1029,7 @@ function setupEventListeners() {
                     clearLoadingState(resultItem);
                 }
             } catch (error: any) {
-                 resultItem.innerHTML = `<p class="status-error">Failed to regenerate: ${error.message}</p>`;
+                 resultItem.innerHTML = `${errorMessageHtml(error)}<button class="card-button regenerate-button" data-prompt="${encodeURIComponent(prompt)}" data-aspect-ratio="${aspectRatio}" data-model-base64="${modelBase64}" ${productBase64 ? `data-product-base64="${productBase64}"` : ''}>Regenerate</button>`;
                  clearLoadingState(resultItem);
             }
         } else if (regenerateVideoBtn) {
@@ -556,13 +1044,17 @@ function setupEventListeners() {
             const prompt = scene.prompt;
             const aspectRatio = regenerateVideoBtn.getAttribute('data-aspect-ratio')!;
             const context = regenerateVideoBtn.getAttribute('data-context');
+            if (!confirmWithinBudget([{ model: api.VIDEO_MODEL, videoSeconds: DEFAULT_VIDEO_SECONDS }])) return;
             
             setLoadingState(resultItem, `<p>Regenerating video for Scene ${scene.id}...</p>`);
             
             try {
-                const result = await api.generateVideoForScene(scene, prompt, resultItem, aspectRatio);
+                const result = await scheduleForCard(resultItem, {
+                    label: `Regenerate video Scene ${scene.id}`, model: api.VIDEO_MODEL, priority: 'high', repeatable: false,
+                    run: (attempt, signal) => api.generateVideoForScene(scene, prompt, resultItem, aspectRatio, signal),
+                });
                 if (result) {
-                    const aspectClass = aspectRatio === '1:1' ? 'aspect-1-1' : 'aspect-9-16';
+                    const aspectClass = state.aspectClass(aspectRatio);
                     resultItem.innerHTML = `
                         <div class="video-container ${aspectClass}">
                             <video src="${result.videoUrl}" controls loop autoplay muted></video>
@@ -573,11 +1065,12 @@ function setupEventListeners() {
                             <button class="card-button regenerate-video-button" data-scene-id="${scene.id}" data-aspect-ratio="${aspectRatio}" data-context="${context || 'video-storyboard'}">Regenerate</button>
                         </div>`;
                     clearLoadingState(resultItem);
-                    state.generatedAssetUrls.push({ url: result.videoUrl, filename: result.filename });
+                    state.updateStoryboardScene(scene.id, { videoUrl: result.videoUrl });
+                    addGeneratedAsset({ url: result.videoUrl, filename: result.filename, info: videoSceneInfo(scene, result.model, aspectRatio) });
                 }
             } catch (error: any) {
                  resultItem.innerHTML = `
-                    <p class="status-error">${error.message}</p>
+                    ${errorMessageHtml(error)}
                     <div class="card-actions">
                         <button class="card-button regenerate-video-button" data-scene-id="${scene.id}" data-aspect-ratio="${aspectRatio}" data-context="${context || 'video-storyboard'}">Regenerate</button>
                     </div>`;
@@ -593,15 +1086,27 @@ function setupEventListeners() {
             const hasReference = regenerateSingleImageBtn.getAttribute('data-reference-image') === 'true';
             const context = regenerateSingleImageBtn.getAttribute('data-context');
 
-            let referenceImages: string[] = [];
+            const previous = state.generatedAssetUrls.find(asset => asset.filename === resultItem.dataset.filename)?.info;
+            // Product Studio cards are redrawn from the product photo they were made from, or the current one after a failure.
+            const productBase64 = (previous && state.assetInput(previous, 'product')) || state.productStudioBase64;
+            const referenceImages = hasReference && context === 'product-studio' && productBase64 ? [productBase64] : [];
+            const model = referenceImages.length ? api.IMAGE_EDIT_MODEL : api.IMAGE_MODEL;
+            if (!confirmWithinBudget([{ model, images: 1 }])) return;
             
             setLoadingState(resultItem, `<p>Regenerating...</p>`);
             
             try {
-                const result = await api.generateSingleImage(prompt, aspectRatio, referenceImages);
+                const result = await scheduleForCard(resultItem, {
+                    label: 'Regenerate image', model, priority: 'high',
+                    run: (attempt, signal) => api.generateSingleImage(prompt, aspectRatio, referenceImages, signal),
+                });
                 if (result) {
-                    state.generatedAssetUrls.push({ url: result.imageUrl, filename: result.filename });
-                    const aspectClass = `aspect-${aspectRatio.replace(':', '-')}`;
+                    addGeneratedAsset({ url: result.imageUrl, filename: result.filename, info: {
+                        mode: previous?.mode || state.activeMode, label: previous?.label || 'image', prompt, model: result.model, aspectRatio,
+                        inputs: referenceImages.map(base64 => ({ role: 'product', base64 })), group: previous?.group, createdAt: Date.now(),
+                    } });
+                    resultItem.dataset.filename = result.filename;
+                    const aspectClass = state.aspectClass(aspectRatio);
                     let cardContent = `
                         <div class="image-container ${aspectClass}">
                             <img src="${result.imageUrl}" alt="Generated image">
@@ -622,7 +1127,7 @@ function setupEventListeners() {
                     clearLoadingState(resultItem);
                 }
             } catch (error: any) {
-                resultItem.innerHTML = `<p class="status-error">${error.message}</p>
+                resultItem.innerHTML = `${errorMessageHtml(error)}
                     <div class="card-actions">
                         <button class="card-button regenerate-single-image-button" 
                                 data-prompt="${encodeURIComponent(prompt)}" 
@@ -640,47 +1145,22 @@ function setupEventListeners() {
     downloadAllButton.addEventListener('click', async () => {
         const originalText = downloadAllButton.innerHTML;
         downloadAllButton.disabled = true;
-        downloadAllButton.innerHTML = 'Downloading...';
-    
-        const assets = state.generatedAssetUrls;
-        for (let i = 0; i < assets.length; i++) {
-            const asset = assets[i];
-            globalStatusEl.textContent = `Downloading ${i + 1} of ${assets.length}...`;
-            
-            const a = document.createElement('a');
-            a.href = asset.url;
-            a.download = asset.filename;
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-    
-            // Small delay between downloads to prevent browser issues
-            await new Promise(resolve => setTimeout(resolve, 300));
+        downloadAllButton.innerHTML = 'Preparing ZIP...';
+
+        try {
+            const zip = await buildAssetZip(state.generatedAssetUrls, (message) => { globalStatusEl.textContent = message; });
+            state.downloadBlob(zip, `roket-${state.activeMode}-${Date.now()}.zip`);
+            globalStatusEl.textContent = `Downloaded ${state.generatedAssetUrls.length} files as a ZIP.`;
+        } catch (error: any) {
+            console.error('Failed to build ZIP:', error);
+            globalStatusEl.textContent = `Could not build the ZIP: ${error.message}`;
         }
-    
+
         downloadAllButton.disabled = false;
         downloadAllButton.innerHTML = originalText;
-        globalStatusEl.textContent = 'All downloads complete.';
     });
 
-    addImageSceneBtn.addEventListener('click', () => {
-        const sceneId = state.getNextImageSceneId();
-        const newScene = { id: sceneId, prompt: '' };
-        state.addImageStoryboardScene(newScene);
-
-        const slot = document.createElement('div');
-        slot.className = 'scene-upload-slot';
-        slot.dataset.sceneId = sceneId.toString();
-        slot.innerHTML = `
-            <div class="scene-prompt-container">
-                <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: var(--space-xs);">
-                    <label for="image-scene-prompt-${sceneId}" class="scene-title-label" style="font-weight: 600; color: var(--text-secondary);">Scene ${state.imageStoryboardScenes.length}</label>
-                    <button class="scene-remove-btn" style="position: static; transform: none;" aria-label="Remove scene">&times;</button>
-                </div>
-                <textarea id="image-scene-prompt-${sceneId}" class="scene-prompt-textarea" rows="4" placeholder="e.g., Model holding the product happily..."></textarea>
-            </div>`;
-        imageStoryboardScenesContainer.appendChild(slot);
-    });
+    addImageSceneBtn.addEventListener('click', () => addImageStoryboardSceneSlot());
 
     imageStoryboardScenesContainer.addEventListener('click', (e: Event) => {
         const target = e.target as HTMLElement;
@@ -715,9 +1195,10 @@ function setupEventListeners() {
 // --- INITIALIZATION ---
 
 export function initializeUI() {
-  // Make the concurrency helper available globally for other modules.
-  (window as any).runWithConcurrency = runWithConcurrency;
-  
+  // Pick the generation backend before anything can call the API.
+  const providerId = initializeProvider();
+  document.querySelector('#provider-badge')?.classList.toggle('hidden', providerId !== 'mock');
+
   // Select all DOM elements safely after the DOM is loaded
   generatorSection = document.querySelector('#generator-section')!;
   generatorApp = document.querySelector('.generator-app')!;
@@ -744,9 +1225,31 @@ export function initializeUI() {
   addImageSceneBtn = document.querySelector('#add-image-scene-btn')!;
   singleModelUploadGroup = document.querySelector('#single-model-upload-group')!;
 
-  
+  renderAspectRatioTabs('#combine-aspect-ratio-selector', api.IMAGE_EDIT_MODEL);
+  renderAspectRatioTabs('#video-storyboard-aspect-ratio-selector', api.VIDEO_MODEL);
+
   // Attach all event listeners
   setupEventListeners();
 
+  // Feature modules register their own modes. They run after the shared
+  // listeners so the generic tab handler updates `.active` before theirs.
+  initializeProductStudio();
+  initializeVoiceOver();
+  initializeAssemble();
+  initializePromptPacks();
+  initializeBatchMatrix();
+  initializeQueuePanel();
+  initializeJobCards(resultsContainer);
+  initializeRefine(resultsContainer);
+  initializeInpaint();
+  initializeOverlays();
+  initializeOutputSettings();
+  initializeUsagePanel();
+  initializeHistory();
+
+  // Projects restore saved work, so they open once every mode is registered.
+  // Unfinished video jobs resume after that, into the restored scenes.
+  initializeProjects().then(initializeVideoJobs);
+
   // API key is no longer checked on load. The app starts directly.
 }
\ No newline at end of file
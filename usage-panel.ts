@@ -0,0 +1,207 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file contains the Usage view. It totals the usage ledger by mode,
+// project and day with estimated costs, and holds the session and daily
+// budget settings that Generate checks before a run.
+
+import * as state from './state';
+import * as usage from './usage';
+import { openModal } from './ui';
+
+interface UsageTotals {
+    calls: number;
+    failed: number;
+    images: number;
+    videoSeconds: number;
+    audioSeconds: number;
+    tokens: number;
+    cost: number;
+}
+
+const MAX_DAYS_SHOWN = 30;
+
+// --- DOM ELEMENTS ---
+let usageButton: HTMLButtonElement;
+let usageToday: HTMLElement;
+
+let openBody: HTMLElement | null = null;
+
+// --- CORE FUNCTIONS ---
+
+function totalsBy(records: usage.UsageRecord[], key: (record: usage.UsageRecord) => string): [string, UsageTotals][] {
+    const groups = new Map<string, UsageTotals>();
+    records.forEach(record => {
+        const name = key(record);
+        const totals = groups.get(name) || { calls: 0, failed: 0, images: 0, videoSeconds: 0, audioSeconds: 0, tokens: 0, cost: 0 };
+        totals.calls++;
+        if (record.outcome !== 'success') totals.failed++;
+        totals.images += record.images;
+        totals.videoSeconds += record.videoSeconds;
+        totals.audioSeconds += record.audioSeconds;
+        totals.tokens += record.inputTokens + record.outputTokens;
+        totals.cost += record.cost;
+        groups.set(name, totals);
+    });
+    return [...groups.entries()];
+}
+
+function totalsTable(title: string, rows: [string, UsageTotals][]) {
+    const section = document.createElement('section');
+    section.className = 'usage-section';
+    section.innerHTML = `
+        <h4>${title}</h4>
+        <table class="usage-table">
+            <thead><tr><th></th><th>Calls</th><th>Failed</th><th>Images</th><th>Video</th><th>Audio</th><th>Tokens</th><th>Est. cost</th></tr></thead>
+            <tbody></tbody>
+        </table>`;
+    const body = section.querySelector('tbody')!;
+    if (rows.length === 0) {
+        body.innerHTML = `<tr><td colspan="8" class="mode-info">No calls recorded yet.</td></tr>`;
+    }
+    rows.forEach(([name, totals]) => {
+        const row = body.insertRow();
+        [
+            name,
+            String(totals.calls),
+            String(totals.failed),
+            String(totals.images),
+            `${Math.round(totals.videoSeconds)}s`,
+            `${Math.round(totals.audioSeconds)}s`,
+            totals.tokens.toLocaleString(),
+            usage.formatCost(totals.cost),
+        ].forEach(value => { row.insertCell().textContent = value; });
+    });
+    return section;
+}
+
+function budgetValue(value: number | null) {
+    return value === null ? '' : String(value);
+}
+
+function renderUsage(body: HTMLElement) {
+    const records = usage.getUsageRecords();
+    const budgets = usage.getBudgets();
+    const allTime = records.reduce((sum, record) => sum + record.cost, 0);
+
+    body.innerHTML = `
+        <p class="usage-summary">
+            This session: <strong>${usage.formatCost(usage.spentThisSession())}</strong> ·
+            Today: <strong>${usage.formatCost(usage.spentToday())}</strong> ·
+            Last 90 days: <strong>${usage.formatCost(allTime)}</strong> (${records.length} calls)
+        </p>
+        <div class="usage-budgets">
+            <div class="form-group">
+                <label for="usage-session-budget">Session budget (USD)</label>
+                <input type="number" id="usage-session-budget" min="0" step="0.5" placeholder="No limit" value="${budgetValue(budgets.session)}">
+            </div>
+            <div class="form-group">
+                <label for="usage-daily-budget">Daily budget (USD)</label>
+                <input type="number" id="usage-daily-budget" min="0" step="0.5" placeholder="No limit" value="${budgetValue(budgets.daily)}">
+            </div>
+            <div class="form-group">
+                <label for="usage-budget-action">When a run would go over</label>
+                <select id="usage-budget-action">
+                    <option value="warn">Warn and ask</option>
+                    <option value="block">Block Generate</option>
+                </select>
+            </div>
+        </div>
+        <p class="mode-info">Costs are estimates from list prices, not your bill. Check the Google Cloud console for actual charges.</p>
+        <div class="usage-tables"></div>
+        <div class="prompt-controls">
+            <button class="enhance-prompt-btn" data-usage-action="export">Export CSV</button>
+            <button class="enhance-prompt-btn" data-usage-action="clear">Clear Ledger</button>
+        </div>`;
+    (body.querySelector('#usage-budget-action') as HTMLSelectElement).value = budgets.action;
+
+    const tables = body.querySelector('.usage-tables')!;
+    const byCost = (a: [string, UsageTotals], b: [string, UsageTotals]) => b[1].cost - a[1].cost;
+    tables.appendChild(totalsTable('By mode', totalsBy(records, record => state.MODE_LABELS[record.mode] || record.mode).sort(byCost)));
+    tables.appendChild(totalsTable('By project', totalsBy(records, record => record.projectName || 'No project').sort(byCost)));
+    tables.appendChild(totalsTable('By day', totalsBy(records, record => record.day).sort((a, b) => b[0].localeCompare(a[0])).slice(0, MAX_DAYS_SHOWN)));
+    tables.appendChild(totalsTable('By model', totalsBy(records, record => record.model).sort(byCost)));
+}
+
+function readBudgets(body: HTMLElement): usage.Budgets {
+    const amount = (id: string) => {
+        const value = parseFloat((body.querySelector(id) as HTMLInputElement).value);
+        return Number.isFinite(value) && value >= 0 ? value : null;
+    };
+    return {
+        session: amount('#usage-session-budget'),
+        daily: amount('#usage-daily-budget'),
+        action: (body.querySelector('#usage-budget-action') as HTMLSelectElement).value as usage.BudgetAction,
+    };
+}
+
+function exportCsv() {
+    const columns: (keyof usage.UsageRecord)[] = [
+        'timestamp', 'day', 'mode', 'projectName', 'model', 'outcome', 'inputTokens', 'outputTokens',
+        'images', 'videoSeconds', 'audioSeconds', 'durationMs', 'cost',
+    ];
+    const quote = (value: unknown) => {
+        const text = value === null || value === undefined ? '' : String(value);
+        return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const lines = [columns.join(','), ...usage.getUsageRecords().map(record => columns.map(column => quote(
+        column === 'timestamp' ? new Date(record.timestamp).toISOString() : record[column],
+    )).join(','))];
+    state.downloadBlob(new Blob([lines.join('\n')], { type: 'text/csv' }), `usage-${usage.localDay(Date.now())}.csv`);
+}
+
+function openUsageView() {
+    const body = document.createElement('div');
+    body.className = 'usage-view';
+    renderUsage(body);
+
+    // Budget fields are saved as they change, without redrawing under the cursor.
+    body.addEventListener('change', (e) => {
+        if ((e.target as HTMLElement).closest('.usage-budgets')) usage.setBudgets(readBudgets(body));
+    });
+    body.addEventListener('click', async (e) => {
+        switch ((e.target as HTMLElement).closest<HTMLElement>('[data-usage-action]')?.dataset.usageAction) {
+            case 'export':
+                exportCsv();
+                break;
+            case 'clear':
+                if (!confirm('Clear the whole usage ledger? Budgets will count from zero again.')) return;
+                await usage.clearUsage();
+                renderUsage(body);
+                break;
+        }
+    });
+
+    openBody = body;
+    openModal('Usage & Costs', body);
+}
+
+function updateButton() {
+    usageToday.textContent = usage.formatCost(usage.spentToday());
+}
+
+function setupEventListeners() {
+    usageButton.addEventListener('click', openUsageView);
+
+    usage.onUsageChange(() => {
+        updateButton();
+        // Refresh an open view when calls finish, but not while a budget field is being edited.
+        if (openBody?.isConnected && !openBody.querySelector('.usage-budgets')!.contains(document.activeElement)) renderUsage(openBody);
+    });
+}
+
+/**
+ * Initializes the Usage button, then loads the stored ledger.
+ */
+export function initializeUsagePanel() {
+    usageButton = document.querySelector('#usage-button')!;
+    usageToday = document.querySelector('#usage-today')!;
+
+    setupEventListeners();
+    updateButton();
+    usage.initializeUsage();
+}
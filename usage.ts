@@ -0,0 +1,321 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file keeps the usage ledger. Every API call records its model, the
+// tokens, images and seconds of media it produced, how long it took and
+// whether it worked, together with the mode and project it ran for. Costs
+// are estimated from list prices, and optional session and daily budgets
+// are checked before a run starts.
+
+import * as state from './state';
+import * as db from './db';
+import { classifyError, GenerationErrorKind } from './errors';
+import { IMAGE_EDIT_MODEL, IMAGE_MODEL, SPEECH_MODEL, TEXT_MODEL, VIDEO_MODEL } from './models';
+import { getProvider } from './providers';
+import type { InlineData, TokenUsage } from './providers';
+
+export interface UsageAmounts extends TokenUsage {
+    images?: number;
+    videoSeconds?: number;
+    audioSeconds?: number;
+}
+
+/** A call a run is expected to make, used to estimate its cost up front. */
+export interface PlannedCall extends UsageAmounts {
+    model: string;
+}
+
+/** What a call is recorded against. */
+export interface UsageContext {
+    mode: state.AppMode;
+    project: typeof state.activeProject;
+}
+
+export interface UsageRecord {
+    id: string;
+    timestamp: number;
+    day: string; // Local date as YYYY-MM-DD.
+    sessionId: string;
+    mode: state.AppMode;
+    projectId: string | null;
+    projectName: string | null;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+    videoSeconds: number;
+    audioSeconds: number;
+    durationMs: number;
+    outcome: 'success' | GenerationErrorKind;
+    cost: number; // Estimated USD, priced when the call was made.
+}
+
+interface ModelPricing {
+    inputPerMillionTokens?: number;
+    outputPerMillionTokens?: number;
+    perImage?: number;
+    perVideoSecond?: number;
+    perAudioSecond?: number;
+}
+
+// Paid-tier list prices in USD. They are estimates: update them here when
+// the price list changes. Image output is charged per image rather than by
+// its tokens, so those tokens are not priced again.
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+    [TEXT_MODEL]: { inputPerMillionTokens: 0.30, outputPerMillionTokens: 2.50 },
+    [IMAGE_EDIT_MODEL]: { inputPerMillionTokens: 0.30, perImage: 0.039 },
+    [IMAGE_MODEL]: { perImage: 0.04 },
+    [VIDEO_MODEL]: { perVideoSecond: 0.15 },
+    [SPEECH_MODEL]: { inputPerMillionTokens: 0.50, perAudioSecond: 0.00025 },
+};
+
+/** Length of a Veo clip when its real length cannot be read. */
+export const DEFAULT_VIDEO_SECONDS = 8;
+
+export type BudgetAction = 'warn' | 'block';
+
+export interface Budgets {
+    /** USD per browser session, or null for no limit. */
+    session: number | null;
+    /** USD per calendar day, or null for no limit. */
+    daily: number | null;
+    action: BudgetAction;
+}
+
+export interface BudgetProblem {
+    limit: 'session' | 'daily';
+    budget: number;
+    spent: number;
+    action: BudgetAction;
+}
+
+const BUDGETS_KEY = 'roket-video-maker.budgets';
+// Older records are dropped when the app starts.
+const LEDGER_RETENTION_DAYS = 90;
+
+const sessionId = `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+let ledger: UsageRecord[] = [];
+let nextRecordNumber = 0;
+const listeners = new Set<() => void>();
+// The mode and project each running job was queued for, keyed by the signal the scheduler gives it.
+const jobContexts = new WeakMap<AbortSignal, UsageContext>();
+
+// --- PRICING ---
+
+export function estimateCost(model: string, amounts: UsageAmounts): number {
+    const price = MODEL_PRICING[model];
+    if (!price) return 0;
+    return (amounts.inputTokens || 0) * (price.inputPerMillionTokens || 0) / 1e6
+        + (amounts.outputTokens || 0) * (price.outputPerMillionTokens || 0) / 1e6
+        + (amounts.images || 0) * (price.perImage || 0)
+        + (amounts.videoSeconds || 0) * (price.perVideoSecond || 0)
+        + (amounts.audioSeconds || 0) * (price.perAudioSecond || 0);
+}
+
+export function estimateRunCost(calls: PlannedCall[]): number {
+    return calls.reduce((sum, call) => sum + estimateCost(call.model, call), 0);
+}
+
+export function formatCost(usd: number): string {
+    return usd < 0.01 && usd > 0 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+/** Seconds of audio in a speech response: raw 16-bit PCM, or a WAV file from the mock. */
+export function audioSeconds(audio: InlineData): number {
+    const padding = (audio.data.match(/=+$/) || [''])[0].length;
+    const bytes = audio.data.length * 3 / 4 - padding;
+    const rate = parseInt(audio.mimeType.match(/rate=(\d+)/)?.[1] || '24000', 10);
+    const pcmBytes = /wav/i.test(audio.mimeType) ? bytes - 44 : bytes;
+    return Math.max(0, pcmBytes / 2 / rate);
+}
+
+/** Reads a video's length from its metadata, falling back to the usual Veo clip length. */
+export function videoSeconds(blob: Blob): Promise<number> {
+    return new Promise(resolve => {
+        const video = document.createElement('video');
+        const url = URL.createObjectURL(blob);
+        const done = (seconds: number) => {
+            URL.revokeObjectURL(url);
+            resolve(seconds);
+        };
+        video.preload = 'metadata';
+        video.onloadedmetadata = () => done(Number.isFinite(video.duration) ? video.duration : DEFAULT_VIDEO_SECONDS);
+        video.onerror = () => done(DEFAULT_VIDEO_SECONDS);
+        video.src = url;
+    });
+}
+
+// --- LEDGER ---
+
+export function onUsageChange(listener: () => void) {
+    listeners.add(listener);
+}
+
+export function getUsageRecords(): UsageRecord[] {
+    return ledger;
+}
+
+export function getSessionId() {
+    return sessionId;
+}
+
+export function localDay(timestamp: number): string {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/** The mode and project open right now, captured when a job is queued. */
+export function currentUsageContext(): UsageContext {
+    return { mode: state.activeMode, project: state.activeProject };
+}
+
+/** Ties a job's captured context to the signal it runs with. */
+export function bindUsageContext(signal: AbortSignal, context: UsageContext) {
+    jobContexts.set(signal, context);
+}
+
+/**
+ * The context a call made with `signal` is recorded against: the one its job
+ * was queued with, or the current one for calls made outside the scheduler.
+ */
+export function usageContext(signal?: AbortSignal): UsageContext {
+    return (signal && jobContexts.get(signal)) || currentUsageContext();
+}
+
+/**
+ * Adds one call to the ledger and stores it in the background. Calls to the
+ * mock provider cost nothing and are left out, so they never use up a budget.
+ */
+export function recordUsage(entry: UsageContext & {
+    model: string;
+    startedAt: number;
+    outcome: UsageRecord['outcome'];
+    amounts: UsageAmounts;
+}) {
+    if (getProvider().id === 'mock') return;
+    const now = Date.now();
+    const { amounts } = entry;
+    const record: UsageRecord = {
+        id: `${sessionId}-${nextRecordNumber++}`,
+        timestamp: now,
+        day: localDay(now),
+        sessionId,
+        mode: entry.mode,
+        projectId: entry.project?.id || null,
+        projectName: entry.project?.name || null,
+        model: entry.model,
+        inputTokens: amounts.inputTokens || 0,
+        outputTokens: amounts.outputTokens || 0,
+        images: amounts.images || 0,
+        videoSeconds: amounts.videoSeconds || 0,
+        audioSeconds: amounts.audioSeconds || 0,
+        durationMs: now - entry.startedAt,
+        outcome: entry.outcome,
+        cost: estimateCost(entry.model, amounts),
+    };
+    ledger.push(record);
+    listeners.forEach(listener => listener());
+    db.putRecord('usage', record).catch(error => console.warn('Could not save usage record:', error));
+}
+
+/**
+ * Runs one provider call and records it against the context of the job
+ * `signal` belongs to. `measure` turns a successful result into the media it
+ * produced; token counts come from the provider. Failed calls are recorded
+ * with their error kind and any tokens reported.
+ */
+export async function trackUsage<T>(
+    model: string,
+    signal: AbortSignal | undefined,
+    call: (onUsage: (usage: TokenUsage) => void) => Promise<T>,
+    measure: (result: T) => UsageAmounts | Promise<UsageAmounts> = () => ({}),
+): Promise<T> {
+    const startedAt = Date.now();
+    const context = usageContext(signal);
+    let tokens: TokenUsage = {};
+    try {
+        const result = await call(usage => { tokens = usage; });
+        recordUsage({ ...context, model, startedAt, outcome: 'success', amounts: { ...tokens, ...(await measure(result)) } });
+        return result;
+    } catch (error) {
+        recordUsage({ ...context, model, startedAt, outcome: classifyError(error).kind, amounts: tokens });
+        throw error;
+    }
+}
+
+export async function clearUsage() {
+    const records = ledger;
+    ledger = [];
+    listeners.forEach(listener => listener());
+    for (const record of records) {
+        await db.deleteRecord('usage', record.id);
+    }
+}
+
+// --- BUDGETS ---
+
+export function getBudgets(): Budgets {
+    try {
+        const stored = JSON.parse(localStorage.getItem(BUDGETS_KEY) || '{}');
+        return {
+            session: typeof stored.session === 'number' ? stored.session : null,
+            daily: typeof stored.daily === 'number' ? stored.daily : null,
+            action: stored.action === 'block' ? 'block' : 'warn',
+        };
+    } catch {
+        return { session: null, daily: null, action: 'warn' };
+    }
+}
+
+export function setBudgets(budgets: Budgets) {
+    localStorage.setItem(BUDGETS_KEY, JSON.stringify(budgets));
+    listeners.forEach(listener => listener());
+}
+
+export function spentThisSession(): number {
+    return ledger.filter(record => record.sessionId === sessionId).reduce((sum, record) => sum + record.cost, 0);
+}
+
+export function spentToday(): number {
+    const today = localDay(Date.now());
+    return ledger.filter(record => record.day === today).reduce((sum, record) => sum + record.cost, 0);
+}
+
+/**
+ * Returns the first budget a run of the given estimated cost would go
+ * over, or null when it fits within every budget that is set.
+ */
+export function checkBudgets(estimatedCost: number): BudgetProblem | null {
+    const budgets = getBudgets();
+    const checks: [BudgetProblem['limit'], number | null, number][] = [
+        ['session', budgets.session, spentThisSession()],
+        ['daily', budgets.daily, spentToday()],
+    ];
+    for (const [limit, budget, spent] of checks) {
+        if (budget !== null && spent + estimatedCost > budget) return { limit, budget, spent, action: budgets.action };
+    }
+    return null;
+}
+
+// --- INITIALIZATION ---
+
+/**
+ * Loads the stored ledger and drops records past the retention window.
+ */
+export async function initializeUsage() {
+    try {
+        const cutoff = Date.now() - LEDGER_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+        const records = await db.getAllRecords<UsageRecord>('usage');
+        const expired = records.filter(record => record.timestamp < cutoff);
+        // Calls made while the ledger was loading are already in memory.
+        ledger = [...records.filter(record => record.timestamp >= cutoff), ...ledger].sort((a, b) => a.timestamp - b.timestamp);
+        listeners.forEach(listener => listener());
+        for (const record of expired) await db.deleteRecord('usage', record.id);
+    } catch (error) {
+        console.warn('Could not load the usage ledger:', error);
+    }
+}
@@ -0,0 +1,135 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file keeps video generation jobs in IndexedDB while they render. A
+// Veo render takes minutes, so if the page is reloaded mid-render the job is
+// picked up again on startup and its video is dropped back into the
+// Video Storyboard results instead of being lost.
+
+import * as state from './state';
+import * as api from './api';
+import * as db from './db';
+import { getProvider, ProviderId, VideoOperation } from './providers';
+import { switchMode } from './ui';
+import { whenModeRestored } from './projects';
+import { scheduleForCard } from './job-cards';
+import { errorMessageHtml } from './errors';
+import { addGeneratedAsset } from './history';
+
+export interface VideoJob {
+    id: string; // The provider's operation name.
+    providerId: ProviderId;
+    operation: VideoOperation;
+    sceneNumber: number;
+    prompt: string;
+    aspectRatio: string;
+    base64: string;
+    mimeType: string;
+    createdAt: number;
+}
+
+// --- DOM ELEMENTS ---
+let resultsContainer: HTMLElement;
+let placeholder: HTMLElement;
+let downloadAllButton: HTMLButtonElement;
+let globalStatusEl: HTMLElement;
+
+// A job that cannot be stored only loses its resumability, so storage errors never fail the generation.
+export async function saveVideoJob(job: VideoJob) {
+    try {
+        await db.putRecord('video-jobs', job);
+    } catch (error) {
+        console.warn('Could not save video job; it will not survive a reload:', error);
+    }
+}
+
+export async function deleteVideoJob(id: string) {
+    try {
+        await db.deleteRecord('video-jobs', id);
+    } catch (error) {
+        console.warn(`Could not remove finished video job ${id}:`, error);
+    }
+}
+
+async function resumeJob(job: VideoJob) {
+    const resultItem = document.createElement('div');
+    resultItem.className = 'result-item status loading';
+    resultItem.innerHTML = `<p>Resuming video for Scene ${job.sceneNumber}...</p>`;
+    resultsContainer.appendChild(resultItem);
+
+    // The scene slot is back if the project restored it; link the video to it so Assemble and Regenerate work.
+    const scene = state.storyboardScenes.find(sc => sc.base64 === job.base64 && sc.prompt === job.prompt)
+        || state.storyboardScenes.find(sc => sc.base64 === job.base64);
+    const regenerateButton = scene
+        ? `<button class="card-button regenerate-video-button" data-scene-id="${scene.id}" data-aspect-ratio="${job.aspectRatio}" data-context="video-storyboard">Regenerate</button>`
+        : '';
+
+    try {
+        // Polling still goes through the scheduler so the card and Cancel All can stop it.
+        const result = await scheduleForCard(resultItem, {
+            label: `Resume video Scene ${job.sceneNumber}`, model: api.VIDEO_MODEL, priority: 'high', repeatable: false,
+            run: (attempt, signal) => api.resumeVideoJob(job, resultItem, signal),
+        });
+        const aspectClass = state.aspectClass(job.aspectRatio);
+        resultItem.innerHTML = `
+            <div class="video-container ${aspectClass}">
+                <video src="${result.videoUrl}" controls loop autoplay muted></video>
+            </div>
+            <p class="card-prompt" style="font-size: 0.8rem; max-height: 50px; overflow-y: auto;"></p>
+            <div class="card-actions">
+                <a href="${result.videoUrl}" download="${result.filename}" class="card-button">Download</a>
+                ${regenerateButton}
+            </div>`;
+        (resultItem.querySelector('.card-prompt') as HTMLElement).textContent = job.prompt;
+        resultItem.classList.remove('loading');
+        if (scene) state.updateStoryboardScene(scene.id, { videoUrl: result.videoUrl });
+        addGeneratedAsset({ url: result.videoUrl, filename: result.filename, info: {
+            mode: 'video-storyboard', label: state.assetLabel('scene', job.sceneNumber), prompt: job.prompt, model: result.model,
+            aspectRatio: job.aspectRatio, inputs: [{ role: 'scene-image', base64: job.base64, mimeType: job.mimeType }], createdAt: Date.now(),
+        } });
+        downloadAllButton.classList.remove('hidden');
+    } catch (error: any) {
+        resultItem.innerHTML = `
+            ${errorMessageHtml(error)}
+            <div class="card-actions">${regenerateButton}</div>`;
+        resultItem.classList.remove('loading');
+    }
+}
+
+// --- INITIALIZATION ---
+
+/**
+ * Resumes any video jobs left unfinished by a previous session. Call this
+ * after the project has been restored so the scene slots already exist.
+ */
+export async function initializeVideoJobs() {
+    resultsContainer = document.querySelector('#results-container')!;
+    placeholder = resultsContainer.querySelector('.placeholder')!;
+    downloadAllButton = document.querySelector('#download-all-button')!;
+    globalStatusEl = document.querySelector('#global-status')!;
+
+    let jobs: VideoJob[];
+    try {
+        jobs = await db.getAllRecords<VideoJob>('video-jobs');
+    } catch (error) {
+        console.warn('Could not read unfinished video jobs:', error);
+        return;
+    }
+    // Operations only exist on the backend that started them.
+    jobs = jobs.filter(job => job.providerId === getProvider().id).sort((a, b) => a.sceneNumber - b.sceneNumber);
+    if (jobs.length === 0) return;
+
+    if (state.activeMode !== 'video-storyboard') {
+        switchMode('video-storyboard');
+        await whenModeRestored();
+    }
+    placeholder.classList.add('hidden');
+    globalStatusEl.textContent = `Resuming ${jobs.length} unfinished video ${jobs.length === 1 ? 'job' : 'jobs'}...`;
+
+    await Promise.all(jobs.map(resumeJob));
+    globalStatusEl.textContent = 'Resumed video jobs are complete.';
+}
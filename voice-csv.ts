@@ -0,0 +1,136 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file reads the CSV or TSV sheets that drive Voice Over's mass mode.
+// Each row is one audio file: its script plus optional columns for the
+// voice, the delivery style, the output file name and the group (such as
+// an account) it is exported under. Empty cells fall back to the panel.
+
+import * as state from './state';
+import { ACCENTS, ACTORS, PACES, TONES } from './voices';
+
+// Accepted header names for each column, compared case-insensitively.
+const COLUMN_ALIASES: Record<keyof state.VoiceOverCsvRow, string[]> = {
+    script: ['script', 'text', 'naskah'],
+    actor: ['actor', 'voice', 'suara'],
+    tone: ['tone', 'style'],
+    pace: ['pace', 'speed'],
+    accent: ['accent', 'language', 'bahasa'],
+    notes: ['direction', 'notes'],
+    filename: ['filename', 'file', 'output'],
+    group: ['group', 'account', 'folder', 'akun'],
+};
+
+export const CSV_TEMPLATE = [
+    'group,filename,actor,tone,pace,accent,direction,script',
+    'akun-1,promo-pagi,Kore,hard-sell,fast,id-jakarta,,"Diskon 50% cuma hari ini, checkout sekarang!"',
+    'akun-2,promo-pagi,Puck,soft-sell,slow,,Smile while speaking,Kulit kusam? Coba rutin pakai serum ini ya.',
+].join('\n');
+
+/**
+ * Splits delimited text into rows of cells. Quoted cells may contain the
+ * delimiter, line breaks and doubled quotes, as in RFC 4180.
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"' && cell === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+/** Picks tab, semicolon or comma, whichever the header line uses most. */
+function detectDelimiter(text: string): string {
+    const header = text.split(/\r?\n/, 1)[0];
+    const counts = ['\t', ';', ','].map(d => ({ d, n: header.split(d).length - 1 }));
+    counts.sort((a, b) => b.n - a.n);
+    return counts[0].n > 0 ? counts[0].d : ',';
+}
+
+/** Matches a cell against a list of options by id or label. */
+function matchOption(value: string, options: { id: string; label: string }[], column: string, rowNumber: number): string {
+    const needle = value.toLowerCase();
+    const option = options.find(o => o.id.toLowerCase() === needle || o.label.toLowerCase() === needle);
+    if (!option) {
+        throw new Error(`Row ${rowNumber}: unknown ${column} "${value}". Use one of: ${options.map(o => o.id).join(', ')}.`);
+    }
+    return option.id;
+}
+
+/**
+ * Reads a mass-mode sheet. The first row must be a header with at least a
+ * script column. Throws a user-readable error naming the first bad row.
+ */
+export function parseVoiceOverSheet(text: string): state.VoiceOverCsvRow[] {
+    const rows = parseDelimited(text.replace(/^\uFEFF/, ''), detectDelimiter(text));
+    if (rows.length < 2) throw new Error('The file needs a header row and at least one script row.');
+
+    const header = rows[0].map(cell => cell.trim().toLowerCase());
+    const columns: Partial<Record<keyof state.VoiceOverCsvRow, number>> = {};
+    (Object.keys(COLUMN_ALIASES) as (keyof state.VoiceOverCsvRow)[]).forEach(key => {
+        const index = header.findIndex(name => COLUMN_ALIASES[key].includes(name));
+        if (index !== -1) columns[key] = index;
+    });
+    if (columns.script === undefined) {
+        throw new Error(`No script column found. Name one of the columns "${COLUMN_ALIASES.script[0]}".`);
+    }
+
+    return rows.slice(1).flatMap((cells, i) => {
+        const rowNumber = i + 2;
+        const cell = (key: keyof state.VoiceOverCsvRow) => columns[key] === undefined ? '' : (cells[columns[key]!] || '').trim();
+        const script = cell('script');
+        if (!script) return [];
+
+        const row: state.VoiceOverCsvRow = { script };
+        const actor = cell('actor');
+        if (actor) {
+            const match = ACTORS.find(a => a.name.toLowerCase() === actor.toLowerCase());
+            if (!match) throw new Error(`Row ${rowNumber}: unknown voice "${actor}".`);
+            row.actor = match.name;
+        }
+        if (cell('tone')) row.tone = matchOption(cell('tone'), TONES, 'tone', rowNumber);
+        if (cell('pace')) row.pace = matchOption(cell('pace'), PACES, 'pace', rowNumber);
+        if (cell('accent')) row.accent = matchOption(cell('accent'), ACCENTS, 'accent', rowNumber);
+        if (cell('notes')) row.notes = cell('notes');
+        // Path separators and characters Windows forbids are replaced, and an audio extension is dropped.
+        const filename = cell('filename').replace(/\.(wav|mp3|webm|ogg|opus|m4a)$/i, '').replace(/[\\/:*?"<>|]+/g, '-').trim();
+        if (filename) row.filename = filename;
+        const group = cell('group').replace(/[\\/:*?"<>|]+/g, '-').trim();
+        if (group) row.group = group;
+        return [row];
+    });
+}
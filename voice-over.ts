@@ -10,51 +10,229 @@
 
 import * as state from './state';
 import * as api from './api';
+import { registerMode, setActiveTab } from './ui';
+import { scheduleForCard } from './job-cards';
+import { errorMessageHtml } from './errors';
+import { addGeneratedAsset } from './history';
+import type { SpeakerVoice } from './providers';
+import { AUDIO_EXPORT_FORMATS, AudioExportFormat, encodeAudio, exportFilename, speechToWav, SPEECH_SAMPLE_RATE } from './audio-export';
+import { splitSentences, SubtitleSentence, timeSubtitles, toSrt, toVtt } from './subtitles';
+import { ACCENTS, ACTORS, buildStyleDirection, getVoicePreviewUrl, PACES, TONES } from './voices';
+import { CSV_TEMPLATE, parseVoiceOverSheet } from './voice-csv';
+import type { PlannedCall } from './usage';
 
 // --- CONSTANTS ---
 
-// This function must be defined in ui.ts, so we're declaring it here to satisfy TypeScript.
-declare function runWithConcurrency(tasks: Array<() => Promise<any>>, limit: number): Promise<void>;
-const AUDIO_CONCURRENCY_LIMIT = 3;
+const DEFAULT_STYLE: state.VoiceOverStyle = { tone: 'neutral', pace: 'normal', accent: 'auto', notes: '' };
 
-const ACTORS = [
-    { name: 'Zephyr', gender: 'male' },
-    { name: 'Puck', gender: 'male' },
-    { name: 'Charon', gender: 'male' },
-    { name: 'Fenrir', gender: 'male' },
-    { name: 'Kore', gender: 'female' },
-];
+const PLAY_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><polygon points="6 3 20 12 6 21 6 3"></polygon></svg>`;
+const STOP_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><rect x="5" y="5" width="14" height="14"></rect></svg>`;
+
+const MODE_INFO: Record<state.VoiceOverInputMode, string> = {
+    single: '',
+    mass: 'Mass mode: every line of the script becomes its own audio file. Import a CSV or TSV instead to set the voice, style, file name and group of each row.',
+    dialogue: 'Dialogue mode: write one "Speaker: line" per line. Pick a speaker below, then click an actor to give them that voice. All lines become one audio file.',
+};
+
+// The TTS model's multi-speaker configuration takes at most two voices.
+const MAX_DIALOGUE_SPEAKERS = 2;
+const SPEAKER_LINE_PATTERN = /^\s*([\p{L}\p{N} _'.-]{1,30}?)\s*:\s*(.*)$/u;
 
 // --- DOM ELEMENTS ---
 let inputModeToggle: HTMLElement;
 let scriptTextarea: HTMLTextAreaElement;
 let modeInfo: HTMLElement;
+let csvGroup: HTMLElement;
+let csvSummary: HTMLElement;
+let csvInput: HTMLInputElement;
 let actorFilters: HTMLElement;
+let actorSearchInput: HTMLInputElement;
 let actorGrid: HTMLElement;
+let speakerMap: HTMLElement;
+let toneButtons: HTMLElement;
+let paceToggle: HTMLElement;
+let accentSelect: HTMLSelectElement;
+let styleNotesInput: HTMLInputElement;
+let formatSelect: HTMLSelectElement;
+let sampleRateSelect: HTMLSelectElement;
 let resultsContainer: HTMLElement;
 let placeholder: HTMLElement;
 let generateButton: HTMLButtonElement;
 let globalStatusEl: HTMLElement;
 let downloadAllButton: HTMLButtonElement;
 
+// The dialogue speaker that a click on an actor card assigns a voice to.
+let activeSpeaker: string | null = null;
+
+// One player for voice previews, so starting a preview stops the last one.
+const previewPlayer = new Audio();
+let previewingActor: string | null = null;
+
 // --- CORE FUNCTIONS ---
 
+/**
+ * Splits a "Speaker: line" script into its lines and speakers, in order of
+ * first appearance. A line without a speaker continues the previous line.
+ */
+function parseDialogue(script: string): { speakers: string[]; lines: { speaker: string; text: string }[] } {
+    const lines: { speaker: string; text: string }[] = [];
+    script.split('\n').filter(line => line.trim() !== '').forEach((line, i) => {
+        const match = line.match(SPEAKER_LINE_PATTERN);
+        if (match) {
+            lines.push({ speaker: match[1], text: match[2].trim() });
+        } else if (lines.length > 0) {
+            lines[lines.length - 1].text += ` ${line.trim()}`;
+        } else {
+            throw new Error(`Line ${i + 1} has no speaker. Start each line with "Name: ".`);
+        }
+    });
+    const speakers = [...new Set(lines.map(line => line.speaker))];
+    return { speakers, lines };
+}
+
+/**
+ * Times the script against its audio and returns SRT and WebVTT files.
+ * Captions are a bonus to the audio, so a failure here only skips them.
+ */
+async function buildSubtitleFiles(sentences: SubtitleSentence[], audio: Blob, baseName: string) {
+    try {
+        const cues = await timeSubtitles(sentences, audio);
+        if (cues.length === 0) return [];
+        return [
+            { format: 'SRT', filename: `${baseName}.srt`, url: URL.createObjectURL(new Blob([toSrt(cues)], { type: 'application/x-subrip' })) },
+            { format: 'VTT', filename: `${baseName}.vtt`, url: URL.createObjectURL(new Blob([toVtt(cues)], { type: 'text/vtt' })) },
+        ];
+    } catch (error) {
+        console.warn('Could not time subtitles:', error);
+        return [];
+    }
+}
+
+/** Gives every speaker without a voice the first actor nobody else is using. */
+function assignDefaultVoices(speakers: string[]) {
+    const voices = { ...state.voiceOverSpeakerVoices };
+    speakers.forEach(speaker => {
+        if (voices[speaker]) return;
+        const used = new Set(speakers.map(s => voices[s]));
+        voices[speaker] = (ACTORS.find(actor => !used.has(actor.name)) || ACTORS[0]).name;
+    });
+    state.setVoiceOverSpeakerVoices(voices);
+}
+
+/**
+ * Shows the speakers found in a dialogue script with the actor each one uses.
+ */
+function renderSpeakerMap() {
+    speakerMap.innerHTML = '';
+    speakerMap.classList.toggle('hidden', state.voiceOverInputMode !== 'dialogue');
+    if (state.voiceOverInputMode !== 'dialogue') return;
+
+    let speakers: string[] = [];
+    try {
+        speakers = parseDialogue(scriptTextarea.value).speakers;
+    } catch (error: any) {
+        speakerMap.innerHTML = `<p class="status-error"></p>`;
+        speakerMap.querySelector('p')!.textContent = error.message;
+        return;
+    }
+    if (speakers.length === 0) {
+        speakerMap.innerHTML = `<p class="mode-info">Speakers appear here once the script has "Name: line" lines.</p>`;
+        activeSpeaker = null;
+        return;
+    }
+
+    assignDefaultVoices(speakers);
+    if (!activeSpeaker || !speakers.includes(activeSpeaker)) activeSpeaker = speakers[0];
+
+    const tabs = document.createElement('div');
+    tabs.className = 'tabs-container';
+    speakers.forEach(speaker => {
+        const chip = document.createElement('button');
+        chip.className = 'tab-button speaker-chip';
+        chip.classList.toggle('active', speaker === activeSpeaker);
+        chip.dataset.speaker = speaker;
+        chip.textContent = `${speaker} → ${state.voiceOverSpeakerVoices[speaker]}`;
+        tabs.appendChild(chip);
+    });
+    speakerMap.appendChild(tabs);
+
+    if (speakers.length > MAX_DIALOGUE_SPEAKERS) {
+        const warning = document.createElement('p');
+        warning.className = 'status-error';
+        warning.textContent = `A dialogue can have at most ${MAX_DIALOGUE_SPEAKERS} speakers; this script has ${speakers.length}.`;
+        speakerMap.appendChild(warning);
+    }
+}
+
+/**
+ * Describes the loaded mass-mode sheet, or the columns a sheet can have.
+ * While a sheet is loaded it replaces the script box.
+ */
+function renderCsvSummary() {
+    const csv = state.voiceOverCsv;
+    csvGroup.classList.toggle('hidden', state.voiceOverInputMode !== 'mass');
+    scriptTextarea.disabled = state.voiceOverInputMode === 'mass' && !!csv;
+    if (!csv) {
+        csvSummary.textContent = 'Columns: script (required), actor, tone, pace, accent, direction, filename, group.';
+        return;
+    }
+    const groups = new Set(csv.rows.map(row => row.group).filter(Boolean));
+    csvSummary.textContent = `${csv.rows.length} row${csv.rows.length === 1 ? '' : 's'} from ${csv.fileName}` +
+        `${groups.size ? ` in ${groups.size} group${groups.size === 1 ? '' : 's'}` : ''}. The script box is ignored until you clear the sheet.`;
+}
+
+async function importCsv(file: File) {
+    try {
+        const rows = parseVoiceOverSheet(await file.text());
+        if (rows.length === 0) throw new Error('The file has no rows with a script.');
+        state.setVoiceOverCsv({ fileName: file.name, rows });
+        globalStatusEl.textContent = `Loaded ${rows.length} scripts from ${file.name}.`;
+    } catch (error: any) {
+        globalStatusEl.textContent = `Could not import ${file.name}: ${error.message}`;
+    }
+    renderCsvSummary();
+}
+
+function downloadCsvTemplate() {
+    state.downloadBlob(new Blob([CSV_TEMPLATE], { type: 'text/csv' }), 'voice-over-template.csv');
+}
+
+function setInputMode(mode: state.VoiceOverInputMode) {
+    state.setVoiceOverInputMode(mode);
+    setActiveTab('#voice-over-input-mode-toggle', 'data-mode', mode);
+    modeInfo.textContent = MODE_INFO[mode];
+    modeInfo.style.display = MODE_INFO[mode] ? 'block' : 'none';
+    renderCsvSummary();
+    renderSpeakerMap();
+    populateActors();
+}
+
 /**
  * Populates the actor grid with selectable actor cards.
  */
 function populateActors() {
     actorGrid.innerHTML = '';
     const currentFilter = (actorFilters.querySelector('.tab-button.active') as HTMLElement)?.dataset.filter || 'all';
+    const query = actorSearchInput.value.trim().toLowerCase();
 
     const filteredActors = ACTORS.filter(actor =>
-        currentFilter === 'all' || actor.gender === currentFilter
+        (currentFilter === 'all' || actor.gender === currentFilter) &&
+        (!query || actor.name.toLowerCase().includes(query) || actor.style.toLowerCase().includes(query))
     );
+    if (filteredActors.length === 0) {
+        actorGrid.innerHTML = `<p class="mode-info">No voices match this search.</p>`;
+        return;
+    }
 
     filteredActors.forEach(actor => {
         const card = document.createElement('div');
         card.className = 'actor-card';
         card.dataset.actorName = actor.name;
-        if (actor.name === state.voiceOverSelectedActor) {
+        // In dialogue mode the highlighted actor is the one the selected speaker uses.
+        const selectedActor = state.voiceOverInputMode === 'dialogue' && activeSpeaker
+            ? state.voiceOverSpeakerVoices[activeSpeaker]
+            : state.voiceOverSelectedActor;
+        if (actor.name === selectedActor) {
             card.classList.add('active');
         }
 
@@ -63,25 +241,180 @@ function populateActors() {
               <span class="actor-name">${actor.name}</span>
               <span class="gender-tag ${actor.gender}">${actor.gender === 'male' ? 'Pria' : 'Wanita'}</span>
             </div>
+            <span class="actor-style">${actor.style}</span>
+            <button class="example-play-btn" data-preview="${actor.name}">
+              ${previewingActor === actor.name ? `${STOP_ICON} Stop` : `${PLAY_ICON} Preview`}
+            </button>
+            <div class="speaker-badges"></div>
         `;
+        if (state.voiceOverInputMode === 'dialogue') {
+            const badges = card.querySelector('.speaker-badges')!;
+            speakerMap.querySelectorAll<HTMLElement>('.speaker-chip').forEach(chip => {
+                if (state.voiceOverSpeakerVoices[chip.dataset.speaker!] !== actor.name) return;
+                const badge = document.createElement('span');
+                badge.className = 'speaker-badge';
+                badge.textContent = chip.dataset.speaker!;
+                badges.appendChild(badge);
+            });
+        }
         actorGrid.appendChild(card);
     });
 }
 
+/**
+ * Plays a voice's sample clip, or stops it if it is already playing.
+ * The clip is generated on first use and cached from then on.
+ */
+async function togglePreview(button: HTMLButtonElement, actorName: string) {
+    previewPlayer.pause();
+    if (previewingActor === actorName) {
+        previewingActor = null;
+        populateActors();
+        return;
+    }
+    previewingActor = actorName;
+    button.disabled = true;
+    button.textContent = 'Loading...';
+    try {
+        const url = await getVoicePreviewUrl(actorName);
+        // Another preview may have been started while this one was loading.
+        if (previewingActor !== actorName) return;
+        previewPlayer.src = url;
+        await previewPlayer.play();
+    } catch (error: any) {
+        console.error('Voice preview failed:', error);
+        globalStatusEl.textContent = `Could not preview ${actorName}: ${error.message}`;
+        previewingActor = null;
+    }
+    populateActors();
+}
+
+/**
+ * Builds the tone, pace and accent controls from the voice style catalog.
+ */
+function populateStyleControls() {
+    TONES.forEach(tone => {
+        const button = document.createElement('button');
+        button.className = 'vibe-button';
+        button.dataset.tone = tone.id;
+        button.textContent = tone.label;
+        toneButtons.appendChild(button);
+    });
+    PACES.forEach(pace => {
+        const button = document.createElement('button');
+        button.className = 'tab-button';
+        button.dataset.pace = pace.id;
+        button.textContent = pace.label;
+        paceToggle.appendChild(button);
+    });
+    ACCENTS.forEach(accent => {
+        const option = document.createElement('option');
+        option.value = accent.id;
+        option.textContent = accent.label;
+        accentSelect.appendChild(option);
+    });
+}
+
+function setStyle(style: state.VoiceOverStyle) {
+    state.setVoiceOverStyle(style);
+    toneButtons.querySelectorAll<HTMLElement>('.vibe-button').forEach(button => {
+        button.classList.toggle('active', button.dataset.tone === style.tone);
+    });
+    setActiveTab('#voice-over-pace-toggle', 'data-pace', style.pace);
+    accentSelect.value = style.accent;
+    styleNotesInput.value = style.notes;
+}
+
+// Rough speaking rate used to estimate audio length before a run.
+const ESTIMATED_CHARACTERS_PER_SECOND = 15;
+
+function estimateVoiceOver(): PlannedCall[] {
+    const script = scriptTextarea.value.trim();
+    const texts = state.voiceOverInputMode === 'mass'
+        ? (state.voiceOverCsv?.rows.map(row => row.script) ?? script.split('\n').filter(line => line.trim() !== ''))
+        : (script ? [script] : []);
+    return texts.map(text => ({
+        model: api.SPEECH_MODEL,
+        inputTokens: Math.ceil(text.length / 4),
+        audioSeconds: text.length / ESTIMATED_CHARACTERS_PER_SECOND,
+    }));
+}
+
 /**
  * Handles the main generation logic for voice overs.
  */
 export async function runVoiceOverGeneration() {
     const script = scriptTextarea.value.trim();
-    if (!script) {
+    const csv = state.voiceOverInputMode === 'mass' ? state.voiceOverCsv : null;
+    if (!script && !csv) {
         globalStatusEl.textContent = 'Please enter a script.';
         return;
     }
     state.setVoiceOverScript(script);
+    const direction = buildStyleDirection(state.voiceOverStyle) || undefined;
 
-    const scriptsToProcess = state.voiceOverInputMode === 'mass'
-        ? script.split('\n').filter(line => line.trim() !== '')
-        : [script];
+    let scriptsToProcess: {
+        text: string; voiceName: string; label: string; baseName: string; sentences: SubtitleSentence[];
+        speakers?: SpeakerVoice[]; direction?: string; group?: string;
+    }[];
+    if (csv) {
+        // Each row's cells override the panel's voice and style; empty cells keep them.
+        scriptsToProcess = csv.rows.map((row, i) => {
+            const voiceName = row.actor || state.voiceOverSelectedActor;
+            const style = {
+                tone: row.tone || state.voiceOverStyle.tone,
+                pace: row.pace || state.voiceOverStyle.pace,
+                accent: row.accent || state.voiceOverStyle.accent,
+                notes: row.notes || state.voiceOverStyle.notes,
+            };
+            return {
+                text: row.script,
+                voiceName,
+                label: row.filename || state.assetLabel(`voice-${voiceName}`, i + 1),
+                baseName: row.filename || `voice-over-${voiceName}-${i + 1}`,
+                sentences: splitSentences(row.script).map(sentence => ({ text: sentence })),
+                direction: buildStyleDirection(style) || undefined,
+                group: row.group,
+            };
+        });
+    } else if (state.voiceOverInputMode === 'dialogue') {
+        let dialogue: ReturnType<typeof parseDialogue>;
+        try {
+            dialogue = parseDialogue(script);
+        } catch (error: any) {
+            globalStatusEl.textContent = error.message;
+            return;
+        }
+        if (dialogue.speakers.length > MAX_DIALOGUE_SPEAKERS) {
+            globalStatusEl.textContent = `A dialogue can have at most ${MAX_DIALOGUE_SPEAKERS} speakers.`;
+            return;
+        }
+        assignDefaultVoices(dialogue.speakers);
+        const speakers = dialogue.speakers.map(speaker => ({ speaker, voiceName: state.voiceOverSpeakerVoices[speaker] }));
+        // A single speaker needs no multi-speaker setup, so its lines are spoken like a normal script, without the name prefixes.
+        const multiSpeaker = speakers.length > 1;
+        scriptsToProcess = [{
+            text: dialogue.lines.map(line => multiSpeaker ? `${line.speaker}: ${line.text}` : line.text).join('\n'),
+            voiceName: speakers[0].voiceName,
+            label: state.assetLabel('dialogue', 1),
+            baseName: 'voice-over-dialogue-1',
+            sentences: dialogue.lines.flatMap(line => splitSentences(line.text).map(text => ({ text, speaker: line.speaker }))),
+            speakers: multiSpeaker ? speakers : undefined,
+            direction,
+        }];
+    } else {
+        const lines = state.voiceOverInputMode === 'mass'
+            ? script.split('\n').filter(line => line.trim() !== '')
+            : [script];
+        scriptsToProcess = lines.map((text, i) => ({
+            text,
+            voiceName: state.voiceOverSelectedActor,
+            label: state.assetLabel(`voice-${state.voiceOverSelectedActor}`, i + 1),
+            baseName: `voice-over-${state.voiceOverSelectedActor}-${i + 1}`,
+            sentences: splitSentences(text).map(sentence => ({ text: sentence })),
+            direction,
+        }));
+    }
 
     if (scriptsToProcess.length === 0) {
         globalStatusEl.textContent = 'Please enter at least one line of script.';
@@ -95,30 +428,49 @@ export async function runVoiceOverGeneration() {
     state.generatedAssetUrls.length = 0;
     downloadAllButton.classList.add('hidden');
 
-    const tasks = scriptsToProcess.map((currentScript, i) => {
+    const tasks = scriptsToProcess.map(({ text: currentScript, voiceName, label, baseName, sentences, speakers, direction, group }, i) => {
         const resultItem = document.createElement('div');
         resultItem.className = 'result-item audio-result-card status loading';
         resultItem.innerHTML = `<p>Waiting : Sabar Yaa!</p>`;
         resultsContainer.appendChild(resultItem);
 
         return async () => {
-            resultItem.innerHTML = `<p>Generating audio for script ${i + 1}...</p>`;
             try {
-                const base64Audio = await api.generateAudioFromText(currentScript, state.voiceOverSelectedActor);
-                // Assuming the API returns a standard audio format like MP3. 'audio/mpeg' is a safe MIME type.
-                const audioSrc = `data:audio/mpeg;base64,${base64Audio}`;
-                const filename = `voice-over-${state.voiceOverSelectedActor}-${i + 1}.mp3`;
+                const audio = await scheduleForCard(resultItem, {
+                    label: `Voice-over ${i + 1}`, model: api.SPEECH_MODEL,
+                    run: (attempt, signal) => {
+                        resultItem.innerHTML = `<p>Generating audio for script ${i + 1}...</p>`;
+                        return api.generateAudioFromText(currentScript, voiceName, speakers, direction, signal);
+                    },
+                });
+                // Results are kept as WAV; the chosen export format is applied when downloading.
+                const wav = speechToWav(audio);
+                const audioSrc = URL.createObjectURL(wav);
+                const filename = `${baseName}.wav`;
                 
-                state.generatedAssetUrls.push({ url: audioSrc, filename });
+                addGeneratedAsset({ url: audioSrc, filename, info: {
+                    mode: 'voice-over', label, prompt: currentScript,
+                    model: api.SPEECH_MODEL, direction, group, createdAt: Date.now(),
+                } });
+
+                resultItem.innerHTML = `<p>Timing subtitles for script ${i + 1}...</p>`;
+                const subtitles = await buildSubtitleFiles(sentences, wav, baseName);
+                subtitles.forEach(subtitle => {
+                    addGeneratedAsset({ url: subtitle.url, filename: subtitle.filename, info: {
+                        mode: 'voice-over', label, prompt: currentScript, sources: [filename], group, createdAt: Date.now(),
+                    } });
+                });
                 
                 resultItem.innerHTML = `
-                    <p class="card-prompt">${currentScript}</p>
+                    ${csv ? `<p class="mode-info">${group ? `${group} / ` : ''}${filename} · ${voiceName}</p>` : ''}
+                    <p class="card-prompt" style="white-space: pre-line;">${currentScript}</p>
                     <audio controls src="${audioSrc}" style="width: 100%; margin-top: var(--space-xs);"></audio>
                     <div class="card-actions">
-                        <a href="${audioSrc}" download="${filename}" class="card-button">
+                        <button class="card-button audio-export-button" data-url="${audioSrc}" data-filename="${filename}">
                             <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>
                             Download
-                        </a>
+                        </button>
+                        ${subtitles.map(subtitle => `<a href="${subtitle.url}" download="${subtitle.filename}" class="card-button">${subtitle.format}</a>`).join('')}
                     </div>
                 `;
                 resultItem.classList.remove('loading');
@@ -126,19 +478,64 @@ export async function runVoiceOverGeneration() {
 
             } catch (error: any) {
                 resultItem.innerHTML = `
-                    <p class="card-prompt">${currentScript}</p>
-                    <p class="status-error">Error: ${error.message}</p>`;
+                    <p class="card-prompt" style="white-space: pre-line;">${currentScript}</p>
+                    ${errorMessageHtml(error)}`;
                 resultItem.classList.remove('loading');
             }
         };
     });
 
-    await (window as any).runWithConcurrency(tasks, AUDIO_CONCURRENCY_LIMIT);
+    await Promise.all(tasks.map(task => task()));
 
     globalStatusEl.textContent = 'Voice over generation complete!';
     generateButton.disabled = false;
 }
 
+/**
+ * Fills the sample rate dropdown with the rates the chosen format supports,
+ * keeping the current rate when it is still allowed.
+ */
+function populateSampleRates() {
+    const rates = AUDIO_EXPORT_FORMATS[state.voiceOverExportFormat].sampleRates;
+    if (!rates.includes(state.voiceOverExportSampleRate)) {
+        state.setVoiceOverExportSampleRate(rates.includes(SPEECH_SAMPLE_RATE) ? SPEECH_SAMPLE_RATE : rates[rates.length - 1]);
+    }
+    sampleRateSelect.innerHTML = '';
+    rates.forEach(rate => {
+        const option = document.createElement('option');
+        option.value = String(rate);
+        option.textContent = `${(rate / 1000).toLocaleString()} kHz${rate === SPEECH_SAMPLE_RATE ? ' (original)' : ''}`;
+        sampleRateSelect.appendChild(option);
+    });
+    sampleRateSelect.value = String(state.voiceOverExportSampleRate);
+}
+
+function setExportFormat(format: AudioExportFormat, sampleRate: number) {
+    state.setVoiceOverExportFormat(format);
+    state.setVoiceOverExportSampleRate(sampleRate);
+    formatSelect.value = format;
+    populateSampleRates();
+}
+
+/**
+ * Encodes one result in the chosen export format and downloads it.
+ */
+async function downloadAudio(button: HTMLButtonElement) {
+    const originalText = button.innerHTML;
+    button.disabled = true;
+    button.textContent = 'Encoding...';
+    try {
+        const source = await (await fetch(button.dataset.url!)).blob();
+        const encoded = await encodeAudio(source, state.voiceOverExportFormat, state.voiceOverExportSampleRate);
+        state.downloadBlob(encoded, exportFilename(button.dataset.filename!, state.voiceOverExportFormat));
+    } catch (error: any) {
+        console.error('Audio export failed:', error);
+        globalStatusEl.textContent = `Could not export audio: ${error.message}`;
+    }
+    button.disabled = false;
+    button.innerHTML = originalText;
+}
+
 /**
  * Sets up all event listeners for the voice over panel.
  */
@@ -146,14 +543,42 @@ function setupEventListeners() {
     inputModeToggle.addEventListener('click', (e) => {
         const button = (e.target as HTMLElement).closest('.tab-button');
         if (button && (button as HTMLElement).dataset.mode) {
-            const mode = (button as HTMLElement).dataset.mode as 'single' | 'mass';
-            state.setVoiceOverInputMode(mode);
-            modeInfo.style.display = mode === 'mass' ? 'block' : 'none';
+            setInputMode((button as HTMLElement).dataset.mode as state.VoiceOverInputMode);
         }
     });
 
     scriptTextarea.addEventListener('input', () => {
         state.setVoiceOverScript(scriptTextarea.value);
+        if (state.voiceOverInputMode === 'dialogue') {
+            renderSpeakerMap();
+            populateActors();
+        }
+    });
+
+    csvGroup.addEventListener('click', (e) => {
+        const button = (e.target as HTMLElement).closest<HTMLElement>('[data-csv-action]');
+        switch (button?.dataset.csvAction) {
+            case 'import': csvInput.click(); break;
+            case 'template': downloadCsvTemplate(); break;
+            case 'clear':
+                state.setVoiceOverCsv(null);
+                renderCsvSummary();
+                break;
+        }
+    });
+
+    csvInput.addEventListener('change', async () => {
+        const file = csvInput.files?.[0];
+        csvInput.value = '';
+        if (file) await importCsv(file);
+    });
+
+    speakerMap.addEventListener('click', (e) => {
+        const chip = (e.target as HTMLElement).closest<HTMLElement>('.speaker-chip');
+        if (!chip) return;
+        activeSpeaker = chip.dataset.speaker!;
+        renderSpeakerMap();
+        populateActors();
     });
 
     actorFilters.addEventListener('click', (e) => {
@@ -163,17 +588,112 @@ function setupEventListeners() {
         }
     });
 
+    actorSearchInput.addEventListener('input', () => populateActors());
+
     actorGrid.addEventListener('click', (e) => {
+        const previewButton = (e.target as HTMLElement).closest<HTMLButtonElement>('.example-play-btn');
+        if (previewButton) {
+            togglePreview(previewButton, previewButton.dataset.preview!);
+            return;
+        }
+
         const card = (e.target as HTMLElement).closest('.actor-card');
         if (!card) return;
 
         const actorName = (card as HTMLElement).dataset.actorName;
         if (!actorName) return;
 
+        if (state.voiceOverInputMode === 'dialogue' && activeSpeaker) {
+            state.setVoiceOverSpeakerVoices({ ...state.voiceOverSpeakerVoices, [activeSpeaker]: actorName });
+            renderSpeakerMap();
+            populateActors();
+            return;
+        }
+
         state.setVoiceOverSelectedActor(actorName);
         actorGrid.querySelectorAll('.actor-card').forEach(c => c.classList.remove('active'));
         card.classList.add('active');
     });
+
+    previewPlayer.addEventListener('ended', () => {
+        previewingActor = null;
+        populateActors();
+    });
+
+    toneButtons.addEventListener('click', (e) => {
+        const button = (e.target as HTMLElement).closest<HTMLElement>('.vibe-button');
+        if (button) setStyle({ ...state.voiceOverStyle, tone: button.dataset.tone! });
+    });
+
+    paceToggle.addEventListener('click', (e) => {
+        const button = (e.target as HTMLElement).closest<HTMLElement>('.tab-button');
+        if (button) setStyle({ ...state.voiceOverStyle, pace: button.dataset.pace! });
+    });
+
+    accentSelect.addEventListener('change', () => {
+        state.setVoiceOverStyle({ ...state.voiceOverStyle, accent: accentSelect.value });
+    });
+
+    styleNotesInput.addEventListener('input', () => {
+        state.setVoiceOverStyle({ ...state.voiceOverStyle, notes: styleNotesInput.value });
+    });
+
+    formatSelect.addEventListener('change', () => {
+        state.setVoiceOverExportFormat(formatSelect.value as AudioExportFormat);
+        populateSampleRates();
+    });
+
+    sampleRateSelect.addEventListener('change', () => {
+        state.setVoiceOverExportSampleRate(parseInt(sampleRateSelect.value, 10));
+    });
+
+    // Audio cards, including ones restored from a project, download through the export settings.
+    resultsContainer.addEventListener('click', (e) => {
+        const button = (e.target as HTMLElement).closest<HTMLButtonElement>('.audio-export-button');
+        if (button) downloadAudio(button);
+    });
+}
+
+/**
+ * Restores the panel to single-script mode when the user switches to another mode.
+ */
+function resetVoiceOver() {
+    state.setVoiceOverScript('');
+    state.setVoiceOverSpeakerVoices({});
+    state.setVoiceOverCsv(null);
+    activeSpeaker = null;
+    setStyle(DEFAULT_STYLE);
+    setInputMode('single');
+}
+
+function captureVoiceOver() {
+    return {
+        inputMode: state.voiceOverInputMode,
+        script: scriptTextarea.value,
+        actor: state.voiceOverSelectedActor,
+        speakerVoices: state.voiceOverSpeakerVoices,
+        style: state.voiceOverStyle,
+        csv: state.voiceOverCsv,
+        exportFormat: state.voiceOverExportFormat,
+        exportSampleRate: state.voiceOverExportSampleRate,
+    };
+}
+
+function voiceOverFromAsset(info: state.AssetInfo) {
+    return { inputMode: 'single', script: info.prompt || '', csv: null };
+}
+
+function restoreVoiceOver(snapshot: Record<string, any>) {
+    const mode: state.VoiceOverInputMode = snapshot.inputMode in MODE_INFO ? snapshot.inputMode : 'single';
+    scriptTextarea.value = snapshot.script || '';
+    state.setVoiceOverScript(scriptTextarea.value);
+    state.setVoiceOverSelectedActor(snapshot.actor || ACTORS[0].name);
+    state.setVoiceOverSpeakerVoices(snapshot.speakerVoices || {});
+    state.setVoiceOverCsv(snapshot.csv?.rows ? snapshot.csv : null);
+    activeSpeaker = null;
+    setStyle({ ...DEFAULT_STYLE, ...snapshot.style });
+    setInputMode(mode);
+    setExportFormat(snapshot.exportFormat in AUDIO_EXPORT_FORMATS ? snapshot.exportFormat : 'wav', snapshot.exportSampleRate || SPEECH_SAMPLE_RATE);
 }
 
 /**
@@ -184,8 +704,19 @@ export function initializeVoiceOver() {
     inputModeToggle = document.querySelector('#voice-over-input-mode-toggle')!;
     scriptTextarea = document.querySelector('#voice-over-script-input')!;
     modeInfo = document.querySelector('#voice-over-mode-info')!;
+    csvGroup = document.querySelector('#voice-over-csv-group')!;
+    csvSummary = document.querySelector('#voice-over-csv-summary')!;
+    csvInput = document.querySelector('#voice-over-csv-input')!;
     actorFilters = document.querySelector('#voice-over-actor-filters')!;
+    actorSearchInput = document.querySelector('#voice-over-actor-search')!;
     actorGrid = document.querySelector('#voice-over-actor-grid')!;
+    speakerMap = document.querySelector('#voice-over-speaker-map')!;
+    toneButtons = document.querySelector('#voice-over-tone-buttons')!;
+    paceToggle = document.querySelector('#voice-over-pace-toggle')!;
+    accentSelect = document.querySelector('#voice-over-accent-select')!;
+    styleNotesInput = document.querySelector('#voice-over-style-notes')!;
+    formatSelect = document.querySelector('#voice-over-format-select')!;
+    sampleRateSelect = document.querySelector('#voice-over-sample-rate-select')!;
     resultsContainer = document.querySelector('#results-container')!;
     placeholder = resultsContainer.querySelector('.placeholder')!;
     generateButton = document.querySelector('#generate-button')!;
@@ -194,6 +725,24 @@ export function initializeVoiceOver() {
 
     // Initial setup
     populateActors();
+    populateStyleControls();
+    setStyle(state.voiceOverStyle);
+    (Object.keys(AUDIO_EXPORT_FORMATS) as AudioExportFormat[]).forEach(format => {
+        const option = document.createElement('option');
+        option.value = format;
+        option.textContent = AUDIO_EXPORT_FORMATS[format].label;
+        formatSelect.appendChild(option);
+    });
+    setExportFormat(state.voiceOverExportFormat, state.voiceOverExportSampleRate);
     setupEventListeners();
-    modeInfo.style.display = 'none'; // Initially hidden
+    setInputMode(state.voiceOverInputMode);
+
+    registerMode('voice-over', {
+        run: runVoiceOverGeneration,
+        reset: resetVoiceOver,
+        capture: captureVoiceOver,
+        restore: restoreVoiceOver,
+        estimate: estimateVoiceOver,
+        fromAsset: voiceOverFromAsset,
+    });
 }
\ No newline at end of file
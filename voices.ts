@@ -0,0 +1,138 @@
+/* tslint:disable */
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// This file contains the catalog of prebuilt TTS voices, the delivery
+// directions (tone, pace, accent) Voice Over can apply to a read, and the
+// short preview clips for each voice, which are cached in IndexedDB so every
+// voice is only synthesized once.
+
+import * as state from './state';
+import * as api from './api';
+import * as db from './db';
+import { getProvider } from './providers';
+import { speechToWav } from './audio-export';
+import { schedule } from './scheduler';
+
+export interface VoiceActor {
+    name: string;
+    gender: 'male' | 'female';
+    /** The character of the voice, as Google describes it. */
+    style: string;
+}
+
+export const ACTORS: VoiceActor[] = [
+    { name: 'Zephyr', gender: 'female', style: 'Bright' },
+    { name: 'Puck', gender: 'male', style: 'Upbeat' },
+    { name: 'Charon', gender: 'male', style: 'Informative' },
+    { name: 'Kore', gender: 'female', style: 'Firm' },
+    { name: 'Fenrir', gender: 'male', style: 'Excitable' },
+    { name: 'Leda', gender: 'female', style: 'Youthful' },
+    { name: 'Orus', gender: 'male', style: 'Firm' },
+    { name: 'Aoede', gender: 'female', style: 'Breezy' },
+    { name: 'Callirrhoe', gender: 'female', style: 'Easy-going' },
+    { name: 'Autonoe', gender: 'female', style: 'Bright' },
+    { name: 'Enceladus', gender: 'male', style: 'Breathy' },
+    { name: 'Iapetus', gender: 'male', style: 'Clear' },
+    { name: 'Umbriel', gender: 'male', style: 'Easy-going' },
+    { name: 'Algieba', gender: 'male', style: 'Smooth' },
+    { name: 'Despina', gender: 'female', style: 'Smooth' },
+    { name: 'Erinome', gender: 'female', style: 'Clear' },
+    { name: 'Algenib', gender: 'male', style: 'Gravelly' },
+    { name: 'Rasalgethi', gender: 'male', style: 'Informative' },
+    { name: 'Laomedeia', gender: 'female', style: 'Upbeat' },
+    { name: 'Achernar', gender: 'female', style: 'Soft' },
+    { name: 'Alnilam', gender: 'male', style: 'Firm' },
+    { name: 'Schedar', gender: 'male', style: 'Even' },
+    { name: 'Gacrux', gender: 'female', style: 'Mature' },
+    { name: 'Pulcherrima', gender: 'female', style: 'Forward' },
+    { name: 'Achird', gender: 'male', style: 'Friendly' },
+    { name: 'Zubenelgenubi', gender: 'male', style: 'Casual' },
+    { name: 'Vindemiatrix', gender: 'female', style: 'Gentle' },
+    { name: 'Sadachbia', gender: 'male', style: 'Lively' },
+    { name: 'Sadaltager', gender: 'male', style: 'Knowledgeable' },
+    { name: 'Sulafat', gender: 'female', style: 'Warm' },
+];
+
+// --- STYLE DIRECTION ---
+
+export const TONES: { id: string; label: string; direction: string }[] = [
+    { id: 'neutral', label: 'Natural', direction: '' },
+    { id: 'hard-sell', label: 'Hard-Sell', direction: 'in a high-energy hard-sell advertising tone, urgent and persuasive' },
+    { id: 'soft-sell', label: 'Soft-Sell', direction: 'in a soft-sell tone, warm, friendly and conversational, never pushy' },
+    { id: 'excited', label: 'Excited', direction: 'in an excited, enthusiastic tone' },
+    { id: 'calm', label: 'Calm', direction: 'in a calm, soothing tone' },
+    { id: 'serious', label: 'Serious', direction: 'in a serious, trustworthy tone' },
+];
+
+export const PACES: { id: string; label: string; direction: string }[] = [
+    { id: 'slow', label: 'Slow', direction: 'at a slow, relaxed pace' },
+    { id: 'normal', label: 'Normal', direction: '' },
+    { id: 'fast', label: 'Fast', direction: 'at a fast pace' },
+];
+
+export const ACCENTS: { id: string; label: string; direction: string }[] = [
+    { id: 'auto', label: 'Auto (follow the script)', direction: '' },
+    { id: 'id-jakarta', label: 'Indonesian – Jakarta', direction: 'in Indonesian with a casual Jakarta accent' },
+    { id: 'id-javanese', label: 'Indonesian – Javanese accent', direction: 'in Indonesian with a Javanese accent' },
+    { id: 'id-sundanese', label: 'Indonesian – Sundanese accent', direction: 'in Indonesian with a Sundanese accent' },
+    { id: 'ms', label: 'Malay', direction: 'in Malay with a Malaysian accent' },
+    { id: 'en-us', label: 'English – American', direction: 'in English with an American accent' },
+    { id: 'en-gb', label: 'English – British', direction: 'in English with a British accent' },
+];
+
+/**
+ * Turns a style into the natural-language instruction the TTS model reads
+ * before the script, or an empty string when nothing differs from the default.
+ */
+export function buildStyleDirection(style: state.VoiceOverStyle): string {
+    const parts = [
+        TONES.find(t => t.id === style.tone)?.direction,
+        PACES.find(p => p.id === style.pace)?.direction,
+        ACCENTS.find(a => a.id === style.accent)?.direction,
+    ].filter((part): part is string => !!part);
+    const notes = style.notes.trim().replace(/[.:]+$/, '');
+    if (parts.length === 0 && !notes) return '';
+    return [parts.length ? `Say the following ${parts.join(', ')}` : '', notes].filter(Boolean).join('. ');
+}
+
+// --- PREVIEWS ---
+
+const PREVIEW_TEXT = 'Halo! Ini contoh suara saya untuk iklan produk kamu.';
+
+interface VoicePreviewRecord {
+    id: string;
+    blob: Blob;
+}
+
+const previewUrls = new Map<string, Promise<string>>();
+
+/**
+ * Returns an object URL for a voice's preview clip, synthesizing and storing
+ * it the first time. Previews are kept per provider so mock tones never
+ * stand in for real voices.
+ */
+export function getVoicePreviewUrl(voiceName: string): Promise<string> {
+    const id = `${getProvider().id}:${voiceName}`;
+    let url = previewUrls.get(id);
+    if (!url) {
+        url = (async () => {
+            const cached = await db.getRecord<VoicePreviewRecord>('voice-previews', id).catch(() => undefined);
+            if (cached) return URL.createObjectURL(cached.blob);
+            const audio = await schedule({
+                label: `Preview ${voiceName}`, model: api.SPEECH_MODEL, priority: 'high',
+                run: (attempt, signal) => api.generateAudioFromText(PREVIEW_TEXT, voiceName, undefined, undefined, signal),
+            });
+            const blob = speechToWav(audio);
+            await db.putRecord('voice-previews', { id, blob }).catch(error => console.warn('Could not cache voice preview:', error));
+            return URL.createObjectURL(blob);
+        })();
+        // A failed preview can be retried on the next click.
+        url.catch(() => previewUrls.delete(id));
+        previewUrls.set(id, url);
+    }
+    return url;
+}